@@ -1,13 +1,55 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { getRoleInstruction, GEMINI_MODEL } from './constants';
-import { TranscriptEntry } from './types';
-import { encodeAudio, decodeAudio, decodeAudioData, downsample } from './services/audioService';
+import { ACADEMIC_LEVELS, ACCENT_THEMES, getModeInstruction } from './constants';
+import { AcademicLevel, AccentTheme, AudioSpan, AudioTrack, Glossary, GlossaryTerm, LectureContext, LectureNotes, LectureSession, LectureSessionSummary, TranscriptEntry, UserRole } from './types';
+import { CapturePipeline, createCapturePipeline } from './services/captureService';
+import { mixPcm16 } from './services/audioService';
+import { createSpeakerFloor, createVoiceGate, DEFAULT_PRE_ROLL_MS, InputMode, SpeakerFloor, VoiceGate } from './services/vadService';
+import { createTranslationProvider, resolveProviderKind } from './services/translationProvider';
+import { ConnectionEvent, ConnectionManager, createConnectionManager } from './services/connectionManager';
+import { detectLanguage, detectTurnSource, getLanguagePair, languageForRole, languageName, pairLabel, pairLanguages, roleForLanguage, targetLanguage } from './services/languageService';
+import { InstructionProfiles, loadAcademicLevel, loadPairId, loadProfiles, resolveInstruction, saveAcademicLevel, savePairId, saveProfiles } from './services/profileService';
+import { findGlossaryHits, glossaryLanguages, loadActiveGlossaryId, loadGlossaries, saveActiveGlossaryId, saveGlossaries } from './services/glossaryService';
+import { readFileAsText } from './services/fileService';
+import { parseTranscriptJson } from './services/exportService';
+import { createLectureSession, deleteAudioChunks, deleteSession, getSession, listSessions, migrateLegacyHistory, saveSession } from './services/sessionStore';
+import { createSessionRecorder, loadTrackWav, SessionRecorder } from './services/recordingService';
+import { InputSettings, isDualLayout, listInputDevices, loadInputSettings, needsMicrophoneSwap, OpenedInputs, openInputs, saveInputSettings } from './services/inputDeviceService';
+import { applyMicPolicy, createPlaybackEngine, loadPlaybackSettings, PlaybackEngine, PlaybackSettings, playClip, routeMediaElement, savePlaybackSettings } from './services/playbackService';
+import { createSpeechSynthesizer } from './services/speechService';
+import { contextDigest, createContextCondenser } from './services/contextService';
+import { annotateEntry, EntryAnnotation, highlightInfo, isMarked } from './services/annotationService';
+import { comboFromEvent, findShortcut, isTypingTarget, loadShortcuts, saveShortcuts, ShortcutAction, ShortcutBindings } from './services/shortcutService';
+import { DecodedMedia, DEFAULT_MEDIA_SPEED, formatMediaTime, MediaTranslation, startMediaTranslation } from './services/mediaImportService';
+import { createMetricsRecorder, MetricsRecorder, SessionMetrics } from './services/metricsService';
+import { createTextTranslator, entryLanguagePair, entryTargetLanguage, isEdited, lastEditedAt, reviseEntry, undoRevision } from './services/correctionService';
 import AudioVisualizer from './components/AudioVisualizer';
+import GlossaryManager from './components/GlossaryManager';
+import SessionLibrary from './components/SessionLibrary';
+import ExportMenu from './components/ExportMenu';
+import HighlightedText, { Highlight, mergeHighlights } from './components/HighlightedText';
+import TranscriptSearchBar from './components/TranscriptSearchBar';
+import { CaptionFeed, CaptionPublisher, captionViewUrl, createCaptionPublisher } from './services/captionChannel';
+import { BroadcastStatus, createBroadcastHost, loadHostKey, loadRelayUrl, loadRoomCode, saveRelayUrl, saveRoomCode } from './services/broadcastService';
+import BroadcastPanel from './components/BroadcastPanel';
+import NotesPanel from './components/NotesPanel';
+import EntryEditor from './components/EntryEditor';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import PlaybackPanel from './components/PlaybackPanel';
+import InputPanel from './components/InputPanel';
+import MediaImportDialog from './components/MediaImportDialog';
+import ContextPanel from './components/ContextPanel';
+import ShortcutsPanel from './components/ShortcutsPanel';
+import EntryAnnotations from './components/EntryAnnotations';
+import TranscriptOutline from './components/TranscriptOutline';
+import TextComposer from './components/TextComposer';
+import ProfileManager from './components/ProfileManager';
+import { EMPTY_FILTERS, hasActiveFilters, searchTranscripts, TextRange, TranscriptFilters } from './services/searchService';
 
-type AccentTheme = 'professional' | 'trustworthy' | 'global' | 'premium';
 type VoiceGender = 'Male' | 'Female';
-type UserRole = 'Professor' | 'Student';
+
+const VOICE_NAMES: Record<VoiceGender, string> = { Female: 'Kore', Male: 'Puck' };
+type SessionStatus = 'idle' | 'connecting' | 'listening' | 'reconnecting' | 'error';
+type SessionMeta = Omit<LectureSession, 'entries'>;
 
 // Premium 3D Style Avatar URLs
 const AVATARS = {
@@ -15,43 +57,152 @@ const AVATARS = {
   Student: 'https://i.postimg.cc/7Z6n0M9Y/Student-3-D-Cute.png',
 };
 
+const glossaryHighlights = (text: string, terms: GlossaryTerm[]): Highlight[] =>
+  findGlossaryHits(text, terms).map(hit => ({
+    start: hit.start,
+    end: hit.end,
+    className: 'bg-amber-200/60 dark:bg-amber-500/30 text-inherit rounded px-0.5 cursor-help',
+    title: glossaryLanguages([hit.term]).map(lang => hit.term.text[lang]).join(' · ') + (hit.term.note ? `\n${hit.term.note}` : '')
+  }));
+
+const searchHighlights = (ranges: TextRange[] = []): Highlight[] =>
+  ranges.map(r => ({ ...r, className: 'bg-yellow-300 dark:bg-yellow-500/60 text-slate-900 dark:text-white rounded px-0.5' }));
+
 const App: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
-  const [transcripts, setTranscripts] = useState<TranscriptEntry[]>(() => {
-    try {
-      const saved = localStorage.getItem('edutranslate_history');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
-  });
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'listening' | 'error'>('idle');
+  const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
+  const [currentSession, setCurrentSession] = useState<SessionMeta | null>(null);
+  const [sessions, setSessions] = useState<LectureSessionSummary[]>([]);
+  const [libraryReady, setLibraryReady] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [filters, setFilters] = useState<TranscriptFilters>(EMPTY_FILTERS);
+  // Entry picked in the outline, ringed briefly after scrolling to it
+  const [jumpId, setJumpId] = useState<string | null>(null);
+  const [activeHit, setActiveHit] = useState(0);
+  const [recordAudio, setRecordAudio] = useState<boolean>(() => localStorage.getItem('edutranslate_record_audio') === 'true');
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [retranslatingId, setRetranslatingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<SessionStatus>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
   
   const [theme, setTheme] = useState<'light' | 'dark'>(() => (localStorage.getItem('edutranslate_theme') as 'light' | 'dark') || 'light');
   const [accentTheme, setAccentTheme] = useState<AccentTheme>(() => (localStorage.getItem('edutranslate_accent') as AccentTheme) || 'professional');
   const [voiceGender, setVoiceGender] = useState<VoiceGender>(() => (localStorage.getItem('edutranslate_voice_gender') as VoiceGender) || 'Female');
   const [activeRole, setActiveRole] = useState<UserRole>(() => (localStorage.getItem('edutranslate_active_role') as UserRole) || 'Professor');
+  const [autoDetect, setAutoDetect] = useState<boolean>(() => localStorage.getItem('edutranslate_auto_detect') === 'true');
+  const [inputMode, setInputMode] = useState<InputMode>(() => (localStorage.getItem('edutranslate_input_mode') as InputMode) || 'vad');
+  const [languagePairId, setLanguagePairId] = useState(loadPairId);
+  const [academicLevel, setAcademicLevel] = useState<AcademicLevel>(loadAcademicLevel);
+  const [profiles, setProfiles] = useState<InstructionProfiles>(loadProfiles);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [activeGlossaryId, setActiveGlossaryId] = useState<string | null>(loadActiveGlossaryId);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showBroadcast, setShowBroadcast] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showPlayback, setShowPlayback] = useState(false);
+  const [showInput, setShowInput] = useState(false);
+  const [floorRole, setFloorRole] = useState<UserRole | null>(null);
+  const [showMediaImport, setShowMediaImport] = useState(false);
+  const [showContext, setShowContext] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(() => loadShortcuts());
+  const [shortcutNotice, setShortcutNotice] = useState('');
+  const [speakTyped, setSpeakTyped] = useState<boolean>(() => localStorage.getItem('edutranslate_speak_typed') === 'true');
+  const [sendingTyped, setSendingTyped] = useState(false);
+  const [mediaProgress, setMediaProgress] = useState<{ name: string; positionMs: number; durationMs: number } | null>(null);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [isPlayingTranslation, setIsPlayingTranslation] = useState(false);
+  const [metrics, setMetrics] = useState<SessionMetrics | null>(null);
+  const [broadcastStatus, setBroadcastStatus] = useState<BroadcastStatus | null>(null);
+  const [broadcastViewers, setBroadcastViewers] = useState(0);
+  const [roomCode, setRoomCode] = useState(loadRoomCode);
+  const [relayUrl, setRelayUrl] = useState(loadRelayUrl);
   
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [currentInput, setCurrentInput] = useState('');
   const [currentOutput, setCurrentOutput] = useState('');
 
   const mainAudioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sessionRef = useRef<any>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // One analyser per input channel; the first also drives the single-mic meter
+  const analysersRef = useRef<AnalyserNode[]>([]);
+  const providerKind = useMemo(() => resolveProviderKind(), []);
+  const textTranslator = useMemo(() => createTextTranslator(providerKind), [providerKind]);
+  const speechSynthesizer = useMemo(() => createSpeechSynthesizer(providerKind), [providerKind]);
+  const contextCondenser = useMemo(() => createContextCondenser(providerKind), [providerKind]);
+  const sessionRef = useRef<ConnectionManager | null>(null);
+  const inputsRef = useRef<OpenedInputs | null>(null);
+  const inputSettingsRef = useRef(inputSettings);
+  const capturesRef = useRef<CapturePipeline[]>([]);
+  const gateRef = useRef<VoiceGate | null>(null);
+  const floorRef = useRef<SpeakerFloor<UserRole> | null>(null);
+  const turnRoleRef = useRef<UserRole | null>(null);
+  const mediaRunRef = useRef<MediaTranslation | null>(null);
+  // Set by the bookmark shortcut mid-turn; applied when the turn is saved
+  const pendingBookmarkRef = useRef(false);
+  const shortcutNoticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Recording time of the end of the current turn, when translating a file
+  const turnEndRef = useRef<number | null>(null);
+  const playbackEngineRef = useRef<PlaybackEngine | null>(null);
+  const playbackSettingsRef = useRef(playbackSettings);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const currentInputRef = useRef('');
   const currentOutputRef = useRef('');
+  const turnStartRef = useRef<number | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const metricsRef = useRef<MetricsRecorder | null>(null);
+  const turnSourceStartRef = useRef<number | null>(null);
+  const turnTranslationStartRef = useRef<number | null>(null);
+  const lastSourceEndRef = useRef(0);
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
   const activeRoleRef = useRef<UserRole>(activeRole);
+  const pair = getLanguagePair(languagePairId);
+  const pairRef = useRef(pair);
+  const autoDetectRef = useRef(autoDetect);
+  const captionRef = useRef<CaptionPublisher | null>(null);
+  const broadcastRef = useRef<CaptionPublisher | null>(null);
+  const captionFeedRef = useRef<CaptionFeed | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem('edutranslate_speak_typed', String(speakTyped));
+  }, [speakTyped]);
 
   useEffect(() => {
     activeRoleRef.current = activeRole;
     localStorage.setItem('edutranslate_active_role', activeRole);
   }, [activeRole]);
 
+  useEffect(() => {
+    pairRef.current = pair;
+    savePairId(pair.id);
+  }, [pair]);
+
+  useEffect(() => {
+    playbackSettingsRef.current = playbackSettings;
+    savePlaybackSettings(playbackSettings);
+    playbackEngineRef.current?.apply(playbackSettings);
+    if (playbackRef.current) routeMediaElement(playbackRef.current, playbackSettings).catch(err => console.error('Output routing failed:', err));
+  }, [playbackSettings]);
+
+  useEffect(() => {
+    saveAcademicLevel(academicLevel);
+  }, [academicLevel]);
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    autoDetectRef.current = autoDetect;
+    localStorage.setItem('edutranslate_auto_detect', String(autoDetect));
+  }, [autoDetect]);
+
   useEffect(() => {
     localStorage.setItem('edutranslate_theme', theme);
     document.documentElement.classList.toggle('dark', theme === 'dark');
@@ -66,12 +217,95 @@ const App: React.FC = () => {
   }, [voiceGender]);
 
   useEffect(() => {
-    localStorage.setItem('edutranslate_history', JSON.stringify(transcripts));
-  }, [transcripts]);
+    localStorage.setItem('edutranslate_input_mode', inputMode);
+  }, [inputMode]);
+
+  useEffect(() => {
+    localStorage.setItem('edutranslate_record_audio', String(recordAudio));
+  }, [recordAudio]);
+
+  useEffect(() => {
+    saveGlossaries(glossaries);
+  }, [glossaries]);
+
+  useEffect(() => {
+    saveShortcuts(shortcuts);
+  }, [shortcuts]);
+
+  useEffect(() => {
+    saveActiveGlossaryId(activeGlossaryId);
+  }, [activeGlossaryId]);
+
+  const activeGlossary = useMemo(() => glossaries.find(g => g.id === activeGlossaryId) ?? null, [glossaries, activeGlossaryId]);
+  const glossaryTerms = activeGlossary?.terms ?? [];
+
+  useEffect(() => {
+    if (!isRecording || inputMode !== 'pushToTalk') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) gateRef.current?.setTalking(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      gateRef.current?.setTalking(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [isRecording, inputMode]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const migrated = await migrateLegacyHistory();
+        const list = await listSessions();
+        const savedId = migrated?.id ?? localStorage.getItem('edutranslate_current_session') ?? list[0]?.id;
+        const session = savedId ? await getSession(savedId) : undefined;
+        if (cancelled) return;
+        setSessions(list);
+        if (session) {
+          const { entries, ...meta } = session;
+          setCurrentSession(meta);
+          setTranscripts(entries);
+        }
+      } catch (err) {
+        console.error('Session library unavailable:', err);
+        setErrorMessage('ไม่สามารถเปิดคลังบันทึกการบรรยายได้ (IndexedDB)');
+      } finally {
+        if (!cancelled) setLibraryReady(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const refreshSessions = useCallback(() => {
+    listSessions().then(setSessions).catch(err => console.error('Failed to list sessions:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!libraryReady || !currentSession) return;
+    const timer = setTimeout(() => {
+      saveSession({ ...currentSession, entries: transcripts })
+        .then(refreshSessions)
+        .catch(err => console.error('Failed to save session:', err));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [transcripts, currentSession, libraryReady, refreshSessions]);
+
+  useEffect(() => {
+    if (currentSession) localStorage.setItem('edutranslate_current_session', currentSession.id);
+    else localStorage.removeItem('edutranslate_current_session');
+  }, [currentSession?.id]);
 
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      localStorage.setItem('edutranslate_history', JSON.stringify(transcripts));
+      if (currentSession) saveSession({ ...currentSession, entries: transcripts }).catch(() => {});
       if (isRecording || transcripts.length > 0) {
         const message = "คุณกำลังอยู่ในการสนทนา ข้อมูลประวัติของคุณจะถูกบันทึกไว้ในเบราว์เซอร์ คุณแน่ใจหรือไม่ว่าต้องการออกจากหน้านี้?";
         e.preventDefault();
@@ -81,103 +315,379 @@ const App: React.FC = () => {
     };
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [transcripts, isRecording]);
+  }, [transcripts, isRecording, currentSession]);
+
+  const filtersActive = hasActiveFilters(filters);
+  const { visible: visibleTranscripts, results: searchResults } = useMemo(() => searchTranscripts(transcripts, filters), [transcripts, filters]);
+  const resultsById = useMemo(() => new Map(searchResults.map(r => [r.entry.id, r])), [searchResults]);
+  const activeHitId = searchResults[activeHit]?.entry.id ?? null;
+  const markedEntries = useMemo(() => transcripts.filter(isMarked), [transcripts]);
 
   useEffect(() => {
-    if (scrollRef.current) {
+    // Keep the newest turn in view, unless the user is reviewing search results
+    if (scrollRef.current && !filtersActive) {
       scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
     }
-  }, [transcripts, currentInput, currentOutput]);
-
-  const activeAccent = useMemo(() => ({
-    professional: { 
-      bg: 'bg-blue-800', 
-      text: 'text-blue-800', 
-      border: 'border-blue-800', 
-      lightBg: 'bg-blue-50', 
-      darkText: 'dark:text-blue-400', 
-      soft: 'bg-blue-800/10',
-      hex: '#1e40af',
-      label: 'Professional Blue',
-      desc: 'Reliability & Intelligence'
-    },
-    trustworthy: { 
-      bg: 'bg-green-700', 
-      text: 'text-green-700', 
-      border: 'border-green-700', 
-      lightBg: 'bg-green-50', 
-      darkText: 'dark:text-green-400', 
-      soft: 'bg-green-700/10',
-      hex: '#15803d',
-      label: 'Trustworthy Green',
-      desc: 'Calm & Friendly'
-    },
-    global: { 
-      bg: 'bg-indigo-600', 
-      text: 'text-indigo-600', 
-      border: 'border-indigo-600', 
-      lightBg: 'bg-indigo-50', 
-      darkText: 'dark:text-indigo-400', 
-      soft: 'bg-indigo-600/10',
-      hex: '#4f46e5',
-      label: 'Global Indigo',
-      desc: 'Creative & Connected'
-    },
-    premium: { 
-      bg: 'bg-slate-900', 
-      text: 'text-slate-900', 
-      border: 'border-slate-900', 
-      lightBg: 'bg-slate-100', 
-      darkText: 'dark:text-slate-200', 
-      soft: 'bg-slate-900/10',
-      hex: '#0f172a',
-      label: 'Modern Premium',
-      desc: 'Luxury & Gold'
-    }
-  }[accentTheme]), [accentTheme]);
+  }, [transcripts.length, currentInput, currentOutput, filtersActive]);
+
+  useEffect(() => {
+    if (!jumpId || !scrollRef.current) return;
+    scrollRef.current.querySelector(`[data-entry-id="${jumpId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setJumpId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpId]);
+
+  useEffect(() => {
+    setActiveHit(0);
+  }, [filters]);
+
+  useEffect(() => {
+    if (!activeHitId || !scrollRef.current) return;
+    scrollRef.current.querySelector(`[data-entry-id="${activeHitId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeHitId]);
+
+  const stepHit = (delta: number) => {
+    if (searchResults.length === 0) return;
+    setActiveHit(i => (i + delta + searchResults.length) % searchResults.length);
+  };
+
+  useEffect(() => {
+    const publisher = createCaptionPublisher();
+    captionRef.current = publisher;
+    return () => {
+      publisher.close();
+      captionRef.current = null;
+      broadcastRef.current?.close();
+      broadcastRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const liveLang = autoDetect ? detectLanguage(currentInput, pairLanguages(pair)) : null;
+    const feed: CaptionFeed = {
+      live: isRecording,
+      currentInput,
+      currentOutput,
+      liveRole: floorRole ?? (liveLang ? roleForLanguage(liveLang, pair) : activeRole),
+      entries: transcripts,
+      accentTheme,
+      pairId: pair.id,
+      sessionName: currentSession?.name
+    };
+    captionFeedRef.current = feed;
+    captionRef.current?.publish(feed);
+    broadcastRef.current?.publish(feed);
+  }, [isRecording, currentInput, currentOutput, autoDetect, activeRole, floorRole, pair, transcripts, accentTheme, currentSession?.name]);
+
+  useEffect(() => {
+    saveRoomCode(roomCode);
+  }, [roomCode]);
+
+  useEffect(() => {
+    saveRelayUrl(relayUrl);
+  }, [relayUrl]);
+
+  const startBroadcast = () => {
+    broadcastRef.current?.close();
+    const host = createBroadcastHost({ relayUrl: relayUrl.trim(), room: roomCode, hostKey: loadHostKey(), onStatus: setBroadcastStatus, onViewers: setBroadcastViewers });
+    broadcastRef.current = host;
+    if (captionFeedRef.current) host.publish(captionFeedRef.current);
+  };
+
+  const stopBroadcast = () => {
+    broadcastRef.current?.close();
+    broadcastRef.current = null;
+    setBroadcastStatus(null);
+    setBroadcastViewers(0);
+  };
+
+  const openCaptionView = () => {
+    const popup = window.open(captionViewUrl(), 'livetrans-captions', 'popup,width=1280,height=720');
+    if (!popup) setErrorMessage('เบราว์เซอร์บล็อกหน้าต่างคำบรรยาย โปรดอนุญาตป๊อปอัปสำหรับเว็บไซต์นี้');
+    else popup.focus();
+  };
+
+  const activeAccent = ACCENT_THEMES[accentTheme];
 
   const saveToHistory = useCallback(() => {
     const input = currentInputRef.current;
     const output = currentOutputRef.current;
     if (input.trim() || output.trim()) {
-      setTranscripts(prev => [...prev, {
+      const turnPair = pairRef.current;
+      // With a microphone per speaker the channel already says who spoke
+      const channelRole = turnRoleRef.current;
+      let role = channelRole ?? activeRoleRef.current;
+      let sourceLang = detectLanguage(input, pairLanguages(turnPair)) ?? languageForRole(role, turnPair);
+      let targetLang = targetLanguage(sourceLang, turnPair);
+      if (!channelRole && autoDetectRef.current) {
+        ({ role, sourceLang, targetLang } = detectTurnSource(input, output, role, turnPair));
+        // The last detected speaker becomes the active role shown in the UI
+        activeRoleRef.current = role;
+        setActiveRole(role);
+      }
+      const entry: TranscriptEntry = {
         id: Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
+        timestamp: turnEndRef.current ?? Date.now(),
+        startedAt: turnStartRef.current ?? undefined,
         text: input,
         translation: output,
-        sourceLang: input.match(/[\u0E00-\u0E7F]/) ? 'Thai' : 'Chinese',
-        role: activeRoleRef.current
-      }]);
+        sourceLang,
+        targetLang,
+        role
+      };
+      if (pendingBookmarkRef.current) {
+        entry.bookmarked = true;
+        pendingBookmarkRef.current = false;
+      }
+      const recorder = recorderRef.current;
+      if (recorder) {
+        const source: AudioSpan = { start: turnSourceStartRef.current ?? lastSourceEndRef.current, end: recorder.position('source') };
+        lastSourceEndRef.current = source.end;
+        entry.audio = {
+          source,
+          translation: turnTranslationStartRef.current !== null ? { start: turnTranslationStartRef.current, end: recorder.position('translation') } : undefined
+        };
+      }
+      setTranscripts(prev => [...prev, entry]);
+      metricsRef.current?.completeTurn(entry.id);
+    } else {
+      metricsRef.current?.completeTurn();
     }
     currentInputRef.current = ''; currentOutputRef.current = '';
+    turnStartRef.current = null;
+    turnEndRef.current = null;
+    turnRoleRef.current = null;
+    turnSourceStartRef.current = null;
+    turnTranslationStartRef.current = null;
     setCurrentInput(''); setCurrentOutput('');
   }, []);
 
+  /**
+   * Reopens the microphones with the current input settings and feeds them into the
+   * running capture pipelines, so a device change never interrupts the live session.
+   */
+  const reopenInputs = useCallback(async () => {
+    const ctx = mainAudioContextRef.current;
+    const previous = inputsRef.current;
+    if (!ctx || !previous) return;
+    try {
+      const inputs = await openInputs(ctx, inputSettingsRef.current);
+      if (mainAudioContextRef.current !== ctx || inputs.channels.length !== previous.channels.length) { inputs.close(); return; }
+      inputs.channels.forEach((channel, i) => {
+        const analyser = analysersRef.current[i];
+        if (analyser) channel.node.connect(analyser);
+        capturesRef.current[i]?.setSource(channel.node);
+      });
+      previous.close();
+      inputsRef.current = inputs;
+      watchInputTracks(inputs);
+    } catch (err: any) {
+      console.error('Microphone switch failed:', err);
+      setErrorMessage(`ไม่สามารถสลับไมโครโฟนได้: ${err.message || err.name}`);
+    }
+  }, []);
+
+  // An unplugged device ends its track; pick up whatever is available instead
+  const watchInputTracks = (inputs: OpenedInputs) => {
+    inputs.tracks.forEach(({ track }) => track?.addEventListener('ended', () => {
+      if (inputsRef.current === inputs) reopenInputs();
+    }));
+  };
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const handleDeviceChange = async () => {
+      try {
+        const devices = await listInputDevices();
+        if (inputsRef.current?.tracks.some(({ track, preferredId }) => needsMicrophoneSwap(track, devices, preferredId))) reopenInputs();
+      } catch (err) {
+        console.error('Device change handling failed:', err);
+      }
+    };
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+  }, [isRecording, reopenInputs]);
+
+  useEffect(() => {
+    if (inputSettingsRef.current === inputSettings) return;
+    inputSettingsRef.current = inputSettings;
+    saveInputSettings(inputSettings);
+    if (isRecording) reopenInputs();
+  }, [inputSettings]);
+
   const stopSession = useCallback(() => {
     saveToHistory();
     setIsRecording(false);
     setStatus('idle');
+    setReconnectAttempt(0);
+    setCurrentSession(s => s && { ...s, endedAt: Date.now() });
+    if (mediaRunRef.current) { mediaRunRef.current.cancel(); mediaRunRef.current = null; }
+    setMediaProgress(null);
     if (sessionRef.current) { try { sessionRef.current.close(); } catch (e) {} sessionRef.current = null; }
-    if (streamRef.current) { streamRef.current.getTracks().forEach(track => track.stop()); streamRef.current = null; }
+    capturesRef.current.forEach(capture => capture.disconnect());
+    capturesRef.current = [];
+    if (recorderRef.current) { recorderRef.current.flush().catch(() => {}); recorderRef.current = null; }
+    if (metricsRef.current) { metricsRef.current.finish(); metricsRef.current = null; }
+    gateRef.current = null;
+    floorRef.current = null;
+    turnRoleRef.current = null;
+    setFloorRole(null);
+    setIsSpeaking(false);
+    if (inputsRef.current) { inputsRef.current.close(); inputsRef.current = null; }
+    if (playbackEngineRef.current) { playbackEngineRef.current.close(); playbackEngineRef.current = null; }
     if (mainAudioContextRef.current) { 
       mainAudioContextRef.current.close().catch(() => {}); 
       mainAudioContextRef.current = null; 
     }
-    analyserRef.current = null;
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch (e) {} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    analysersRef.current = [];
   }, [saveToHistory]);
 
-  const startSession = async () => {
+  /**
+   * Every recording gets its own library entry; an untouched empty session is reused.
+   * The lecture context carries over, since it is usually prepared before pressing Connect.
+   */
+  const beginLectureSession = (overrides: Partial<SessionMeta> = {}): SessionMeta => {
+    if (currentSession && transcripts.length === 0) {
+      const reused = { ...currentSession, startedAt: Date.now(), endedAt: undefined, course: currentSession.course || activeGlossary?.course || '', recorded: recordAudio, ...overrides };
+      if (currentSession.recorded) deleteAudioChunks(currentSession.id).catch(() => {});
+      setCurrentSession(reused);
+      return reused;
+    }
+    const { entries, ...meta } = createLectureSession({ course: activeGlossary?.course, context: currentSession?.context, ...overrides });
+    meta.recorded = recordAudio;
+    setCurrentSession(meta);
+    setTranscripts(entries);
+    return meta;
+  };
+
+  const persistCurrentSession = async () => {
+    if (currentSession) await saveSession({ ...currentSession, entries: transcripts });
+  };
+
+  const selectSession = async (id: string) => {
+    if (id === currentSession?.id) { setShowLibrary(false); return; }
+    try {
+      await persistCurrentSession();
+      const session = await getSession(id);
+      if (!session) return;
+      const { entries, ...meta } = session;
+      setCurrentSession(meta);
+      setTranscripts(entries);
+      setShowLibrary(false);
+    } catch (err) {
+      console.error('Failed to open session:', err);
+    }
+  };
+
+  const newLectureSession = async () => {
+    try {
+      await persistCurrentSession();
+      const session = createLectureSession({ course: activeGlossary?.course });
+      await saveSession(session);
+      const { entries, ...meta } = session;
+      setCurrentSession(meta);
+      setTranscripts(entries);
+      refreshSessions();
+    } catch (err) {
+      console.error('Failed to create session:', err);
+    }
+  };
+
+  const updateSessionMeta = async (id: string, meta: Pick<SessionMeta, 'name' | 'course' | 'participants'>) => {
+    if (id === currentSession?.id) {
+      setCurrentSession({ ...currentSession, ...meta });
+      return;
+    }
+    try {
+      const session = await getSession(id);
+      if (session) await saveSession({ ...session, ...meta });
+      refreshSessions();
+    } catch (err) {
+      console.error('Failed to update session:', err);
+    }
+  };
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      const list = await listSessions();
+      setSessions(list);
+      if (id === currentSession?.id) {
+        const next = list[0] ? await getSession(list[0].id) : undefined;
+        if (next) {
+          const { entries, ...meta } = next;
+          setCurrentSession(meta);
+          setTranscripts(entries);
+        } else {
+          setCurrentSession(null);
+          setTranscripts([]);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+    }
+  };
+
+  /**
+   * Feeds a decoded recording into the open session. Entry times are placed at their
+   * position in the recording, counted from the session start.
+   */
+  const startMediaRun = (media: DecodedMedia, speed: number, startedAt: number, provider: ConnectionManager) => {
+    setMediaProgress({ name: media.name, positionMs: 0, durationMs: media.durationMs });
+    let lastProgress = 0;
+    const run = startMediaTranslation({
+      media,
+      speed,
+      sampleRate: 16000,
+      sendAudio: (pcm) => provider.sendAudio(pcm, 16000),
+      endAudioStream: () => provider.endAudioStream(),
+      onFrame: (pcm) => recorderRef.current?.append('source', pcm, 16000),
+      onSpeechStart: (offsetMs) => {
+        setIsSpeaking(true);
+        metricsRef.current?.mark('speechStart');
+        turnStartRef.current ??= startedAt + offsetMs;
+        turnEndRef.current = null;
+        if (recorderRef.current) turnSourceStartRef.current ??= Math.max(lastSourceEndRef.current, offsetMs);
+      },
+      onSpeechEnd: (offsetMs) => {
+        setIsSpeaking(false);
+        turnEndRef.current = startedAt + offsetMs;
+      },
+      onProgress: (positionMs) => {
+        // Silence streams through in bursts; a few updates a second are plenty
+        if (positionMs - lastProgress < 250 && positionMs < media.durationMs) return;
+        lastProgress = positionMs;
+        setMediaProgress(p => p && { ...p, positionMs });
+      }
+    });
+    mediaRunRef.current = run;
+    run.done.then(() => {
+      if (mediaRunRef.current !== run) return;
+      stopSession();
+      setCurrentSession(s => s && { ...s, endedAt: startedAt + media.durationMs });
+    }).catch(err => {
+      console.error('Recording translation failed:', err);
+      setErrorMessage(`แปลไฟล์บันทึกเสียงไม่สำเร็จ: ${err.message || 'Unknown'}`);
+      stopSession();
+    });
+  };
+
+  /** Starts a live session from the microphones, or from a decoded recording when `media` is given. */
+  const startSession = async (media?: DecodedMedia, mediaSpeed: number = DEFAULT_MEDIA_SPEED) => {
     try {
       if (!window.isSecureContext) {
         setErrorMessage('โปรดใช้งานผ่าน HTTPS เท่านั้น (Secure Context required)');
         return;
       }
       setStatus('connecting');
+      const lecture = beginLectureSession(media ? { name: media.name.replace(/\.[^.]+$/, ''), mediaFile: media.name } : {});
+      lastSourceEndRef.current = 0;
+      recorderRef.current = recordAudio ? createSessionRecorder(lecture.id) : null;
+      // Two speaker channels need a VAD each to decide who holds the floor
+      const dualInput = !media && isDualLayout(inputSettingsRef.current);
+      const sessionInputMode: InputMode = media || dualInput ? 'vad' : inputMode;
+      metricsRef.current = createMetricsRecorder({ sessionId: lecture.id, sessionName: lecture.name, provider: providerKind, inputMode: sessionInputMode, onChange: setMetrics });
       setErrorMessage('');
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       mainAudioContextRef.current = ctx;
       const silentBuffer = ctx.createBuffer(1, 1, 22050);
@@ -186,9 +696,9 @@ const App: React.FC = () => {
       silentSource.connect(ctx.destination);
       silentSource.start(0);
       await ctx.resume();
-      let stream: MediaStream;
+      let inputs: OpenedInputs | null = null;
       try {
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        if (!media) inputs = await openInputs(ctx, inputSettingsRef.current);
       } catch (err: any) {
         if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
           setErrorMessage('โปรดอนุญาตให้เข้าถึงไมโครโฟนในการตั้งค่าเบราว์เซอร์');
@@ -198,85 +708,159 @@ const App: React.FC = () => {
           setErrorMessage(`ไม่สามารถเปิดไมโครโฟนได้: ${err.message}`);
         }
         setStatus('error');
+        if (recorderRef.current) { recorderRef.current.flush().catch(() => {}); recorderRef.current = null; }
+        if (metricsRef.current) { metricsRef.current.finish(); metricsRef.current = null; }
+        mainAudioContextRef.current = null;
         ctx.close();
         return;
       }
-      streamRef.current = stream;
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 256;
-      analyserRef.current = analyser;
-      const apiVoiceName = voiceGender === 'Male' ? 'Puck' : 'Kore';
-      const sessionPromise = ai.live.connect({
-        model: GEMINI_MODEL,
-        config: {
-          systemInstruction: getRoleInstruction(activeRole),
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: apiVoiceName } }
-          }
-        },
-        callbacks: {
-          onopen: () => {
+      inputsRef.current = inputs;
+      if (inputs) watchInputTracks(inputs);
+      const analysers = (inputs?.channels ?? []).map(() => {
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 256;
+        return analyser;
+      });
+      analysersRef.current = analysers;
+      const engine = createPlaybackEngine(ctx, playbackSettingsRef.current, {
+        onPlayingChange: setIsPlayingTranslation,
+        onError: err => console.error('Translation playback error:', err)
+      });
+      playbackEngineRef.current = engine;
+      const apiVoiceName = VOICE_NAMES[voiceGender];
+      const provider = createConnectionManager({ createProvider: () => createTranslationProvider(providerKind) });
+      sessionRef.current = provider;
+      const handleEvent = async (event: ConnectionEvent) => {
+        switch (event.type) {
+          case 'open': {
+            metricsRef.current?.connected();
             setStatus('listening');
             setIsRecording(true);
-            const source = ctx.createMediaStreamSource(stream);
-            source.connect(analyser); 
-            const scriptProcessor = ctx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const downsampledData = downsample(inputData, ctx.sampleRate, 16000);
-              sessionPromise.then(session => {
-                if (session) session.sendRealtimeInput({
-                  media: { 
-                    data: encodeAudio(new Uint8Array(downsampledData.buffer)), 
-                    mimeType: 'audio/pcm;rate=16000' 
-                  }
-                });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(ctx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && mainAudioContextRef.current) {
-              const currentCtx = mainAudioContextRef.current;
-              if (currentCtx.state === 'suspended') await currentCtx.resume();
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentCtx.currentTime);
-              const buffer = await decodeAudioData(decodeAudio(audioData), currentCtx, 24000, 1);
-              const source = currentCtx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(currentCtx.destination);
-              source.addEventListener('ended', () => sourcesRef.current.delete(source));
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
+            if (media) {
+              startMediaRun(media, mediaSpeed, lecture.startedAt, provider);
+              break;
             }
-            if (msg.serverContent?.inputTranscription) {
-              const text = msg.serverContent.inputTranscription.text;
-              currentInputRef.current += text; setCurrentInput(currentInputRef.current);
+            const channels = (inputsRef.current ?? inputs)?.channels ?? [];
+            channels.forEach((channel, i) => channel.node.connect(analysers[i]));
+            const onActivityChange = (active: boolean) => {
+              setIsSpeaking(active);
+              if (active) metricsRef.current?.mark('speechStart');
+              // Speech onset (minus the VAD pre-roll) marks where this turn begins in the recording
+              if (active && recorderRef.current) turnSourceStartRef.current ??= Math.max(lastSourceEndRef.current, recorderRef.current.position('source') - DEFAULT_PRE_ROLL_MS);
+            };
+            let gates: VoiceGate[];
+            if (dualInput) {
+              const floor = createSpeakerFloor<UserRole>({
+                onAudio: (pcm) => provider.sendAudio(pcm, 16000),
+                onSpeechEnd: () => provider.endAudioStream(),
+                onHolderChange: (holder) => {
+                  onActivityChange(holder !== null);
+                  if (holder) setFloorRole(holder);
+                }
+              });
+              floorRef.current = floor;
+              gates = channels.map(channel => floor.gate(channel.role ?? 'Professor', { mode: 'vad', sampleRate: 16000 }));
+            } else {
+              const gate = createVoiceGate({
+                mode: inputMode,
+                sampleRate: 16000,
+                onAudio: (pcm) => provider.sendAudio(pcm, 16000),
+                onSpeechEnd: () => provider.endAudioStream(),
+                onActivityChange
+              });
+              gateRef.current = gate;
+              gates = [gate];
             }
-            if (msg.serverContent?.outputTranscription) {
-              const text = msg.serverContent.outputTranscription.text;
-              currentOutputRef.current += text; setCurrentOutput(currentOutputRef.current);
+            // The recording follows the first channel, with the other microphones mixed in
+            const pendingFrames: (Int16Array | null)[] = channels.map(() => null);
+            const record = (index: number, pcm: Int16Array) => {
+              const recorder = recorderRef.current;
+              if (!recorder) return;
+              if (index > 0) { pendingFrames[index] = pcm; return; }
+              const mixed = pendingFrames.reduce<Int16Array>((mix, frame) => frame ? mixPcm16(mix, frame) : mix, pcm);
+              pendingFrames.fill(null);
+              recorder.append('source', mixed, 16000);
+            };
+            try {
+              for (const [i, channel] of channels.entries()) {
+                capturesRef.current.push(await createCapturePipeline(ctx, channel.node, {
+                  targetRate: 16000,
+                  onFrame: (pcm) => {
+                    record(i, pcm);
+                    // Keep the translation coming out of the speakers from re-entering the mic
+                    const frame = applyMicPolicy(pcm, playbackSettingsRef.current.micPolicy, engine.isPlaying());
+                    if (frame) gates[i].push(frame);
+                  }
+                }));
+              }
+            } catch (err: any) {
+              console.error("Capture worklet error:", err);
+              setErrorMessage(`ไม่สามารถเริ่มการบันทึกเสียงได้: ${err.message || 'Unknown'}`);
+              stopSession();
             }
-            if (msg.serverContent?.turnComplete) saveToHistory();
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-              sourcesRef.current.clear(); nextStartTimeRef.current = 0;
+            break;
+          }
+          case 'audio': {
+            metricsRef.current?.mark('firstOutputAudio');
+            const recorder = recorderRef.current;
+            if (recorder) {
+              turnTranslationStartRef.current ??= recorder.position('translation');
+              recorder.append('translation', new Int16Array(event.data.slice().buffer), event.sampleRate);
             }
-          },
-          onerror: (err) => { 
-            console.error("Live Error:", err);
+            // A recording is translated faster than it could be listened to
+            if (playbackEngineRef.current !== engine || media) break;
+            const startsAt = await engine.enqueue(event.data, event.sampleRate);
+            if (startsAt !== null) metricsRef.current?.mark('playbackStart', startsAt);
+            break;
+          }
+          case 'inputText':
+            metricsRef.current?.mark('firstInput');
+            turnStartRef.current ??= Date.now();
+            // Without a VAD onset, assume the utterance began shortly before its first transcription
+            if (recorderRef.current) turnSourceStartRef.current ??= Math.max(lastSourceEndRef.current, recorderRef.current.position('source') - 2000);
+            if (floorRef.current) turnRoleRef.current ??= floorRef.current.holder() ?? floorRef.current.lastHolder();
+            currentInputRef.current += event.text; setCurrentInput(currentInputRef.current);
+            break;
+          case 'outputText':
+            metricsRef.current?.mark('firstOutputText');
+            turnStartRef.current ??= Date.now();
+            if (floorRef.current) turnRoleRef.current ??= floorRef.current.holder() ?? floorRef.current.lastHolder();
+            currentOutputRef.current += event.text; setCurrentOutput(currentOutputRef.current);
+            break;
+          case 'turnComplete':
+            metricsRef.current?.mark('turnComplete');
+            saveToHistory();
+            mediaRunRef.current?.turnCompleted();
+            break;
+          case 'interrupted':
+            metricsRef.current?.interrupted();
+            engine.stop();
+            break;
+          case 'reconnecting':
+            if (event.error) console.error('Live connection dropped:', event.error);
+            metricsRef.current?.reconnecting(event.attempt);
+            setStatus('reconnecting');
+            setReconnectAttempt(event.attempt);
+            break;
+          case 'reconnected':
+            metricsRef.current?.reconnected();
+            setStatus('listening');
+            setReconnectAttempt(0);
+            break;
+          case 'error':
+            console.error("Live Error:", event.error);
             setErrorMessage('พบข้อผิดพลาดในการเชื่อมต่อกับ AI'); 
             stopSession(); 
-          },
-          onclose: () => stopSession()
+            break;
+          case 'close':
+            stopSession();
+            break;
         }
-      });
-      sessionRef.current = await sessionPromise;
+      };
+      await provider.connect({
+        systemInstruction: getModeInstruction(autoDetect || dualInput ? 'AUTO' : activeRole, pair, resolveInstruction(profiles, pair, academicLevel), glossaryTerms, contextDigest(lecture.context)),
+        voiceName: apiVoiceName
+      }, handleEvent);
     } catch (err: any) {
       console.error("Initialization error:", err);
       setErrorMessage(`เกิดข้อผิดพลาด: ${err.message || 'Unknown'}`);
@@ -284,6 +868,39 @@ const App: React.FC = () => {
     }
   };
 
+  const stopPlayback = useCallback(() => {
+    if (playbackRef.current) {
+      playbackRef.current.pause();
+      URL.revokeObjectURL(playbackRef.current.src);
+      playbackRef.current = null;
+    }
+    setPlayingKey(null);
+  }, []);
+
+  useEffect(() => stopPlayback, [currentSession?.id, stopPlayback]);
+
+  const playEntryAudio = async (entry: TranscriptEntry, track: AudioTrack) => {
+    const key = `${entry.id}:${track}`;
+    const span = entry.audio?.[track];
+    if (playingKey === key) { stopPlayback(); return; }
+    stopPlayback();
+    if (!span || !currentSession) return;
+    try {
+      await recorderRef.current?.flush();
+      const blob = await loadTrackWav(currentSession.id, track, span);
+      if (!blob) { setErrorMessage('ไม่พบไฟล์เสียงของรายการนี้'); return; }
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.addEventListener('ended', stopPlayback);
+      await routeMediaElement(audio, playbackSettings);
+      playbackRef.current = audio;
+      setPlayingKey(key);
+      await audio.play();
+    } catch (err) {
+      console.error('Playback failed:', err);
+      stopPlayback();
+    }
+  };
+
   const copyToClipboard = useCallback((text: string, id: string) => {
     if (!navigator.clipboard) {
       setErrorMessage('เบราว์เซอร์ไม่รองรับการคัดลอก');
@@ -297,43 +914,266 @@ const App: React.FC = () => {
     });
   }, []);
 
+  const annotate = (id: string, patch: Partial<EntryAnnotation>) => {
+    setTranscripts(prev => prev.map(t => t.id === id ? annotateEntry(t, patch) : t));
+  };
+
+  // An entry hidden by the filters is brought back before scrolling to it
+  const jumpToEntry = (id: string) => {
+    if (!visibleTranscripts.some(t => t.id === id)) setFilters(EMPTY_FILTERS);
+    setJumpId(id);
+  };
+
+  const entryClock = (entry: TranscriptEntry) => currentSession?.mediaFile
+    ? formatMediaTime((entry.startedAt ?? entry.timestamp) - currentSession.startedAt)
+    : new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
   const toggleRole = (id: string) => {
     setTranscripts(prev => prev.map(t => t.id === id ? { ...t, role: t.role === 'Professor' ? 'Student' : 'Professor' } : t));
   };
 
+  const saveEntryEdit = (id: string, patch: Pick<TranscriptEntry, 'text' | 'translation'>) => {
+    setTranscripts(prev => prev.map(t => t.id === id ? reviseEntry(t, patch, 'edit') : t));
+    setEditingId(null);
+  };
+
+  const undoEntryEdit = (id: string) => {
+    setTranscripts(prev => prev.map(t => t.id === id ? undoRevision(t) : t));
+  };
+
+  const retranslateEntry = async (entry: TranscriptEntry, text: string) => {
+    const entryPair = entryLanguagePair(entry, pair);
+    setRetranslatingId(entry.id);
+    try {
+      const translation = await textTranslator.translate({
+        text,
+        sourceLang: entry.sourceLang,
+        targetLang: entryTargetLanguage(entry, pair),
+        instruction: resolveInstruction(profiles, entryPair, academicLevel),
+        glossary: glossaryTerms,
+        context: contextDigest(currentSession?.context)
+      });
+      setTranscripts(prev => prev.map(t => t.id === entry.id ? reviseEntry(t, { text, translation }, 'retranslate') : t));
+      setEditingId(null);
+    } catch (err: any) {
+      console.error('Re-translation failed:', err);
+      setErrorMessage(`แปลใหม่ไม่สำเร็จ: ${err.message || 'Unknown'}`);
+    } finally {
+      setRetranslatingId(null);
+    }
+  };
+
+  // During a live session the speech joins the translation queue, so the mic is ducked as usual
+  const speakTranslation = async (text: string) => {
+    try {
+      const speech = await speechSynthesizer.synthesize(text, VOICE_NAMES[voiceGender]);
+      const engine = playbackEngineRef.current;
+      if (engine) await engine.enqueue(speech.data, speech.sampleRate);
+      else await playClip(speech.data, speech.sampleRate, playbackSettingsRef.current);
+    } catch (err: any) {
+      console.error('Speech synthesis failed:', err);
+      setErrorMessage(`ไม่สามารถอ่านคำแปลออกเสียงได้: ${err.message || 'Unknown'}`);
+    }
+  };
+
+  /** Translates a typed message and records it like a spoken turn. Works with or without a live session. */
+  const sendTypedMessage = async (text: string, role: UserRole, speak: boolean): Promise<boolean> => {
+    const sourceLang = detectLanguage(text, pairLanguages(pair)) ?? languageForRole(role, pair);
+    const targetLang = targetLanguage(sourceLang, pair);
+    setSendingTyped(true);
+    try {
+      const translation = await textTranslator.translate({
+        text,
+        sourceLang,
+        targetLang,
+        instruction: resolveInstruction(profiles, pair, academicLevel),
+        glossary: glossaryTerms,
+        typed: true,
+        context: contextDigest(currentSession?.context)
+      });
+      const now = Date.now();
+      const entry: TranscriptEntry = { id: Math.random().toString(36).substr(2, 9), timestamp: now, startedAt: now, text, translation, sourceLang, targetLang, role, typed: true };
+      if (!currentSession) {
+        const { entries, ...meta } = createLectureSession({ course: activeGlossary?.course });
+        setCurrentSession(meta);
+      }
+      setTranscripts(prev => [...prev, entry]);
+      if (speak) speakTranslation(translation);
+      return true;
+    } catch (err: any) {
+      console.error('Typed message translation failed:', err);
+      setErrorMessage(`ส่งข้อความไม่สำเร็จ: ${err.message || 'Unknown'}`);
+      return false;
+    } finally {
+      setSendingTyped(false);
+    }
+  };
+
+  const updateNotes = (notes: LectureNotes) => {
+    setCurrentSession(s => s && { ...s, notes });
+  };
+
+  // Context can be prepared before the first recording, so it may create the session
+  const updateContext = (context: LectureContext) => {
+    if (currentSession) {
+      setCurrentSession(s => s && { ...s, context });
+      return;
+    }
+    const { entries, ...meta } = createLectureSession({ course: activeGlossary?.course, context });
+    setCurrentSession(meta);
+  };
+
   const clearHistory = () => {
     if (window.confirm('คุณแน่ใจหรือไม่ว่าต้องการล้างประวัติการสนทนาทั้งหมด?')) {
-      setTranscripts([]); localStorage.removeItem('edutranslate_history');
+      setTranscripts([]);
+    }
+  };
+
+  const importTranscript = async (file: File) => {
+    if (isRecording) {
+      setErrorMessage('โปรดหยุดเซสชันก่อนนำเข้าไฟล์');
+      return;
+    }
+    try {
+      const { session, entries } = parseTranscriptJson(await readFileAsText(file));
+      await persistCurrentSession();
+      const imported = createLectureSession({
+        name: session?.name || file.name.replace(/\.[^.]+$/, ''),
+        course: session?.course,
+        participants: session?.participants,
+        startedAt: session?.startedAt ?? entries[0]?.startedAt ?? entries[0]?.timestamp,
+        endedAt: session?.endedAt,
+        mediaFile: session?.mediaFile,
+        notes: session?.notes,
+        context: session?.context,
+        entries
+      });
+      await saveSession(imported);
+      const { entries: importedEntries, ...meta } = imported;
+      setCurrentSession(meta);
+      setTranscripts(importedEntries);
+      refreshSessions();
+    } catch (err: any) {
+      console.error('Import failed:', err);
+      setErrorMessage(`นำเข้าไฟล์ไม่สำเร็จ: ${err.message || 'Unknown'}`);
+    }
+  };
+
+  // A reopened session may have been recorded in a different language pair
+  const transcriptLanguages = useMemo(() => Array.from(new Set([...pairLanguages(pair), ...transcripts.map(t => t.sourceLang)])), [pair, transcripts]);
+  const detectedLiveLang = autoDetect ? detectLanguage(currentInput, pairLanguages(pair)) : null;
+  const displayRole: UserRole = floorRole ?? (detectedLiveLang ? roleForLanguage(detectedLiveLang, pair) : activeRole);
+  // Each speaker has a microphone: the role selector is not used and only VAD can arbitrate
+  const dualInput = isDualLayout(inputSettings);
+  const contextDocumentCount = currentSession?.context?.documents.length ?? 0;
+  const liveInputMode: InputMode = dualInput ? 'vad' : inputMode;
+  // The instruction is fixed when the session connects, so the speaker is chosen beforehand
+  const roleLocked = isRecording || dualInput;
+
+  /** Picks the speaker, or language detection when `role` is null. */
+  const selectRole = (role: UserRole | null) => {
+    if (roleLocked) return;
+    if (role) setActiveRole(role);
+    setAutoDetect(role === null);
+  };
+
+  const announce = (notice: string) => {
+    setShortcutNotice(notice);
+    if (shortcutNoticeTimerRef.current) clearTimeout(shortcutNoticeTimerRef.current);
+    shortcutNoticeTimerRef.current = setTimeout(() => setShortcutNotice(''), 1800);
+  };
+
+  // Marks the turn being spoken when there is one, otherwise the last saved turn
+  const bookmarkCurrentTurn = () => {
+    if (currentInputRef.current.trim() || currentOutputRef.current.trim()) {
+      pendingBookmarkRef.current = true;
+      announce('Bookmarked the current turn');
+      return;
     }
+    const last = transcripts[transcripts.length - 1];
+    if (!last) return;
+    annotate(last.id, { bookmarked: true });
+    announce('Bookmarked the last turn');
   };
 
-  const exportTranscript = () => {
-    const text = transcripts.map(t => `[${new Date(t.timestamp).toLocaleTimeString()}] ${t.role}\nSource: ${t.text}\nTrans: ${t.translation}\n`).join('\n');
-    const blob = new Blob([text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a'); a.href = url; a.download = `LiveTrans_Session.txt`; a.click();
-    URL.revokeObjectURL(url);
+  // Reassigned every render so the key listener always sees the current state
+  const shortcutHandlersRef = useRef<Record<ShortcutAction, () => void> | null>(null);
+  shortcutHandlersRef.current = {
+    toggleSession: () => {
+      if (isRecording) stopSession();
+      else if (status !== 'connecting') startSession();
+    },
+    switchRole: () => {
+      if (roleLocked) {
+        announce(dualInput ? 'Speakers follow the microphones' : 'Stop the session to switch speaker');
+        return;
+      }
+      const next: UserRole = !autoDetect && activeRole === 'Professor' ? 'Student' : 'Professor';
+      selectRole(next);
+      announce(next === 'Professor' ? 'Speaker: Teacher' : 'Speaker: Student');
+    },
+    toggleMute: () => {
+      setPlaybackSettings(s => ({ ...s, muted: !s.muted }));
+      announce(playbackSettings.muted ? 'Translation audio on' : 'Translation audio muted');
+    },
+    bookmark: bookmarkCurrentTurn,
+    openCaptions: openCaptionView,
+    copyTranslation: () => {
+      const last = [...transcripts].reverse().find(t => t.translation.trim());
+      if (!last) return;
+      copyToClipboard(last.translation, last.id);
+      announce('Copied the last translation');
+    },
+    showShortcuts: () => setShowShortcuts(true)
   };
 
+  useEffect(() => {
+    // The sheet records keys itself while open
+    if (showShortcuts) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const action = combo ? findShortcut(shortcuts, combo) : null;
+      if (!action) return;
+      e.preventDefault();
+      shortcutHandlersRef.current?.[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, showShortcuts]);
+
   const roleSelector = (
     <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
       {(['Professor', 'Student'] as UserRole[]).map((role) => (
         <button
           key={role}
-          disabled={isRecording}
-          onClick={() => setActiveRole(role)}
+          disabled={roleLocked}
+          onClick={() => selectRole(role)}
           className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all duration-300 ${
-            activeRole === role 
+            !autoDetect && activeRole === role 
               ? `${activeAccent.bg} text-white shadow-lg shadow-blue-500/10 scale-[1.05]` 
               : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
           } disabled:opacity-50`}
         >
-          <div className={`w-6 h-6 md:w-7 md:h-7 rounded-full overflow-hidden border-2 transition-transform duration-300 ${activeRole === role ? 'border-white/80' : 'border-slate-300 dark:border-slate-600'} shrink-0 shadow-sm`}>
+          <div className={`w-6 h-6 md:w-7 md:h-7 rounded-full overflow-hidden border-2 transition-transform duration-300 ${!autoDetect && activeRole === role ? 'border-white/80' : 'border-slate-300 dark:border-slate-600'} shrink-0 shadow-sm`}>
             <img src={AVATARS[role]} alt={role} className="w-full h-full object-cover brightness-105 contrast-105" />
           </div>
           <span className="hidden sm:inline">{role === 'Professor' ? 'Teacher' : 'Student'}</span>
         </button>
       ))}
+      <button
+        disabled={roleLocked}
+        onClick={() => selectRole(null)}
+        title="Detect the speaker's language on every turn"
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all duration-300 ${
+          autoDetect 
+            ? `${activeAccent.bg} text-white shadow-lg shadow-blue-500/10 scale-[1.05]` 
+            : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+        } disabled:opacity-50`}
+      >
+        <i className="fas fa-wand-magic-sparkles text-xs"></i>
+        <span className="hidden sm:inline">Auto</span>
+      </button>
     </div>
   );
 
@@ -357,6 +1197,31 @@ const App: React.FC = () => {
     </div>
   );
 
+  const inputModeSelector = (
+    <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+      {([
+        { mode: 'continuous', icon: 'fa-wave-square', label: 'Stream', title: 'Send all microphone audio' },
+        { mode: 'vad', icon: 'fa-microphone-lines', label: 'Auto', title: 'Send audio only while someone is speaking' },
+        { mode: 'pushToTalk', icon: 'fa-hand', label: 'Hold', title: 'Push to talk: hold Space or the talk button' }
+      ] as { mode: InputMode; icon: string; label: string; title: string }[]).map(({ mode, icon, label, title }) => (
+        <button
+          key={mode}
+          disabled={isRecording || dualInput}
+          onClick={() => setInputMode(mode)}
+          title={dualInput ? 'Two-microphone input always sends speech only' : title}
+          className={`px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all duration-300 flex items-center gap-2 ${
+            liveInputMode === mode 
+              ? `${activeAccent.bg} text-white shadow-lg shadow-blue-500/10 scale-[1.05]` 
+              : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'
+          } disabled:opacity-50`}
+        >
+          <i className={`fas ${icon} text-xs`}></i>
+          <span className="hidden sm:inline">{label}</span>
+        </button>
+      ))}
+    </div>
+  );
+
   const accentSelector = (
     <div className="flex flex-wrap gap-2 justify-end">
       {(['professional', 'trustworthy', 'global', 'premium'] as AccentTheme[]).map((themeKey) => {
@@ -401,19 +1266,85 @@ const App: React.FC = () => {
 
           <div className="flex items-center gap-2 md:gap-4 flex-1 justify-end">
             <div className="flex items-center gap-2 overflow-x-auto no-scrollbar py-1">
+              <button
+                onClick={() => setShowProfiles(true)}
+                title={`${languageName(pair.lecturer)} ⇄ ${languageName(pair.students)} · ${ACADEMIC_LEVELS[academicLevel].label}`}
+                className="shrink-0 px-3 py-2 rounded-2xl text-[11px] font-black uppercase tracking-tight border transition-all flex items-center gap-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700 hover:bg-slate-200 dark:hover:bg-slate-700"
+              >
+                <i className="fas fa-language text-xs"></i>
+                <span>{pairLabel(pair)}</span>
+              </button>
               {roleSelector}
               {voiceSelector}
+              {inputModeSelector}
+              <button
+                disabled={isRecording}
+                onClick={() => setRecordAudio(r => !r)}
+                title="Keep the lecture audio and the spoken translation for replay"
+                className={`shrink-0 px-3 py-2 rounded-2xl text-[11px] font-black uppercase tracking-tight border transition-all flex items-center gap-2 disabled:opacity-50 ${
+                  recordAudio ? 'bg-red-500 text-white border-red-500 shadow-lg shadow-red-500/20' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700'
+                }`}
+              >
+                <i className="fas fa-circle-dot text-xs"></i>
+                <span className="hidden sm:inline">Rec</span>
+              </button>
             </div>
             
             <div className="h-8 w-px bg-slate-200 dark:bg-slate-700 mx-1 hidden sm:block"></div>
 
             <div className="flex items-center gap-2 shrink-0">
+              <button onClick={() => setShowLibrary(true)} title="Lecture Library" className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-layer-group"></i>
+              </button>
+
+              <button onClick={openCaptionView} title="Open caption view for the projector" className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-closed-captioning"></i>
+              </button>
+
+              <button onClick={() => setShowBroadcast(true)} title={broadcastStatus ? `Broadcasting to room ${roomCode}` : 'Classroom Broadcast'} className="relative p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-tower-broadcast"></i>
+                {broadcastStatus && <span className={`absolute -top-1 -right-1 w-3 h-3 rounded-full border-2 border-white dark:border-slate-900 ${broadcastStatus === 'live' ? 'bg-green-500' : 'bg-amber-500'}`}></span>}
+              </button>
+
+              <button onClick={() => setShowGlossary(true)} title={activeGlossary ? `Glossary: ${activeGlossary.course}` : 'Course Glossary'} className="relative p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-book"></i>
+                {activeGlossary && <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white dark:border-slate-900"></span>}
+              </button>
+
+              <button onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts" className="hidden md:flex p-2 w-10 h-10 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-keyboard"></i>
+              </button>
+
+              <button onClick={() => setShowContext(true)} title="Lecture context" className="relative p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-book-open"></i>
+                {contextDocumentCount > 0 && <span className={`absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 ${activeAccent.bg} text-white text-[9px] font-black rounded-full flex items-center justify-center border-2 border-white dark:border-slate-900`}>{contextDocumentCount}</span>}
+              </button>
+
+              <button onClick={() => setShowInput(true)} title="Microphone" className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-sliders"></i>
+              </button>
+
+              <button onClick={() => setShowPlayback(true)} title="Translation audio" className="relative p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className={`fas ${playbackSettings.captionsOnly ? 'fa-ear-deaf' : playbackSettings.muted ? 'fa-volume-xmark' : 'fa-volume-high'}`}></i>
+                {isPlayingTranslation && <span className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white dark:border-slate-900 animate-pulse"></span>}
+              </button>
+
+              <button onClick={() => setShowDiagnostics(true)} title="Latency diagnostics" className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                <i className="fas fa-gauge-high"></i>
+              </button>
+
               <button onClick={() => setTheme(t => t === 'light' ? 'dark' : 'light')} className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
                 <i className={`fas ${theme === 'light' ? 'fa-moon' : 'fa-sun'}`}></i>
               </button>
 
+              {!isRecording && (
+                <button onClick={() => setShowMediaImport(true)} title="Translate a recording" className="p-2 w-10 h-10 flex items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all active:scale-90 shadow-sm border border-slate-200 dark:border-slate-700">
+                  <i className="fas fa-file-audio"></i>
+                </button>
+              )}
+
               {!isRecording ? (
-                <button onClick={startSession} className={`${activeAccent.bg} hover:brightness-110 text-white px-4 md:px-6 py-2.5 rounded-2xl text-xs md:text-sm font-black shadow-xl shadow-blue-500/20 flex items-center gap-2 transition-all active:scale-95 border border-white/10`}>
+                <button onClick={() => startSession()} className={`${activeAccent.bg} hover:brightness-110 text-white px-4 md:px-6 py-2.5 rounded-2xl text-xs md:text-sm font-black shadow-xl shadow-blue-500/20 flex items-center gap-2 transition-all active:scale-95 border border-white/10`}>
                   <i className="fas fa-microphone"></i> <span className="hidden sm:inline">Connect Live</span>
                 </button>
               ) : (
@@ -435,22 +1366,31 @@ const App: React.FC = () => {
                 <div className={`w-2 h-8 ${activeAccent.bg} rounded-full`}></div>
                 <h2 className="text-sm font-black text-slate-800 dark:text-slate-200 uppercase tracking-[0.2em]">Active Input</h2>
               </div>
-              {status === 'listening' && (
-                <div className="flex items-center gap-2 text-[10px] font-black text-green-500 bg-green-500/10 px-4 py-1.5 rounded-full border border-green-500/20">
-                  <span className="w-2 h-2 bg-green-500 rounded-full animate-ping"></span> LISTENING
+              {status === 'reconnecting' && (
+                <div className="flex items-center gap-2 text-[10px] font-black text-amber-500 bg-amber-500/10 px-4 py-1.5 rounded-full border border-amber-500/20">
+                  <i className="fas fa-rotate animate-spin"></i> RECONNECTING (ATTEMPT {reconnectAttempt})
                 </div>
               )}
+              {status === 'listening' && (isSpeaking || liveInputMode === 'continuous' ? (
+                <div className="flex items-center gap-2 text-[10px] font-black text-green-500 bg-green-500/10 px-4 py-1.5 rounded-full border border-green-500/20">
+                  <span className="w-2 h-2 bg-green-500 rounded-full animate-ping"></span> {liveInputMode === 'continuous' ? 'LISTENING' : 'SENDING SPEECH'}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 bg-slate-500/10 px-4 py-1.5 rounded-full border border-slate-500/20">
+                  <span className="w-2 h-2 bg-slate-400 rounded-full"></span> {liveInputMode === 'pushToTalk' ? 'HOLD SPACE TO TALK' : 'WAITING FOR SPEECH'}
+                </div>
+              ))}
             </div>
 
             <div className="flex flex-col gap-8 relative z-10">
               <div className="space-y-4">
                 <div className="flex items-center gap-3">
                    <div className={`w-14 h-14 md:w-16 md:h-16 rounded-[1.2rem] overflow-hidden border-2 ${activeAccent.border} shadow-2xl transition-transform group-hover:rotate-3`}>
-                     <img src={AVATARS[activeRole]} alt="active role" className="w-full h-full object-cover brightness-105 contrast-105" />
+                     <img src={AVATARS[displayRole]} alt="active role" className="w-full h-full object-cover brightness-105 contrast-105" />
                    </div>
                    <div>
-                     <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Detected From</p>
-                     <p className={`text-sm font-bold ${activeRole === 'Professor' ? 'text-blue-600' : 'text-purple-600'}`}>{activeRole === 'Professor' ? 'Thai Professor' : 'Chinese Student'}</p>
+                     <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{dualInput ? 'Speaking On Mic' : autoDetect ? 'Auto Detected From' : 'Detected From'}</p>
+                     <p className={`text-sm font-bold ${displayRole === 'Professor' ? 'text-blue-600' : 'text-purple-600'}`}>{displayRole === 'Professor' ? `${languageName(pair.lecturer)} Professor` : `${languageName(pair.students)} Student`}</p>
                    </div>
                 </div>
                 <div className="min-h-[120px] p-6 md:p-8 bg-slate-50/50 dark:bg-slate-900/40 rounded-[2rem] text-slate-800 dark:text-slate-100 text-lg md:text-2xl font-semibold leading-relaxed border border-slate-100 dark:border-slate-800/50 shadow-inner">
@@ -473,7 +1413,42 @@ const App: React.FC = () => {
             </div>
 
             <div className="mt-4 pt-6 border-t border-slate-100 dark:border-slate-800">
-               <AudioVisualizer analyser={analyserRef.current} isActive={isRecording} color={activeAccent.hex} />
+               {mediaProgress ? (
+                 <div className="py-4 space-y-3">
+                   <div className="flex items-center justify-between gap-4 text-xs font-black text-slate-500">
+                     <span className="truncate"><i className="fas fa-file-audio mr-2"></i>{mediaProgress.name}</span>
+                     <span className="tabular-nums shrink-0">{formatMediaTime(mediaProgress.positionMs)} / {formatMediaTime(mediaProgress.durationMs)}</span>
+                   </div>
+                   <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                     <div className={`h-full ${activeAccent.bg} transition-all`} style={{ width: `${Math.min(100, mediaProgress.positionMs / mediaProgress.durationMs * 100)}%` }}></div>
+                   </div>
+                 </div>
+               ) : isRecording && analysersRef.current.length > 1 ? (
+                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                   {inputsRef.current?.channels.map((channel, i) => (
+                     <AudioVisualizer
+                       key={i}
+                       analyser={analysersRef.current[i] ?? null}
+                       isActive={isRecording}
+                       color={channel.role === 'Student' ? '#9333ea' : activeAccent.hex}
+                       label={channel.role === 'Student' ? `${languageName(pair.students)} Student` : `${languageName(pair.lecturer)} Professor`}
+                     />
+                   ))}
+                 </div>
+               ) : (
+                 <AudioVisualizer analyser={analysersRef.current[0] ?? null} isActive={isRecording} color={activeAccent.hex} />
+               )}
+               {isRecording && liveInputMode === 'pushToTalk' && (
+                 <button
+                   onPointerDown={() => gateRef.current?.setTalking(true)}
+                   onPointerUp={() => gateRef.current?.setTalking(false)}
+                   onPointerLeave={() => gateRef.current?.setTalking(false)}
+                   onPointerCancel={() => gateRef.current?.setTalking(false)}
+                   className={`mt-4 w-full py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-white shadow-xl transition-all select-none touch-none ${isSpeaking ? 'bg-red-500 scale-[0.98]' : activeAccent.bg}`}
+                 >
+                   <i className="fas fa-microphone mr-2"></i> {isSpeaking ? 'Talking…' : 'Hold to Talk'}
+                 </button>
+               )}
             </div>
           </div>
           
@@ -494,21 +1469,41 @@ const App: React.FC = () => {
               <div className="w-12 h-12 rounded-2xl bg-slate-900 dark:bg-slate-700 flex items-center justify-center text-white shadow-2xl border border-white/10"><i className="fas fa-list-ul text-lg"></i></div>
               <div>
                 <h2 className="text-xl font-black dark:text-white leading-none">Class Dialogue History</h2>
-                <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-[0.2em] mt-2">Academic Session Logs</p>
+                <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-[0.2em] mt-2">{currentSession ? currentSession.name : 'Academic Session Logs'}</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
-              <button onClick={exportTranscript} className="p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95" title="Export as Text">
-                <i className="fas fa-file-export"></i>
+              <button onClick={() => setShowNotes(true)} disabled={!currentSession} className="p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95 disabled:opacity-40" title="Lecture Notes">
+                <i className={`fas fa-note-sticky ${currentSession?.notes ? activeAccent.text : ''}`}></i>
               </button>
+              <ExportMenu session={currentSession} entries={transcripts} onImport={importTranscript} />
               <button onClick={clearHistory} className="p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-red-500 hover:bg-red-50 dark:hover:bg-red-950/20 hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95" title="Clear History">
                 <i className="fas fa-trash-alt"></i>
               </button>
             </div>
           </div>
 
+          {transcripts.length > 0 && (
+            <TranscriptSearchBar
+              filters={filters}
+              languages={transcriptLanguages}
+              hitCount={searchResults.length}
+              activeHit={activeHit}
+              onChange={setFilters}
+              onPrev={() => stepHit(-1)}
+              onNext={() => stepHit(1)}
+            />
+          )}
+
+          <TranscriptOutline entries={markedEntries} formatTime={entryClock} onJump={jumpToEntry} />
+
           <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 md:p-10 space-y-12 md:space-y-16 scroll-smooth bg-slate-50/30 dark:bg-transparent">
-            {transcripts.length === 0 ? (
+            {transcripts.length > 0 && visibleTranscripts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center text-slate-400 gap-4 py-20">
+                <i className="fas fa-filter text-4xl opacity-40"></i>
+                <p className="text-sm font-bold">No entries match the current filters</p>
+              </div>
+            ) : transcripts.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-slate-300 dark:text-slate-800 gap-8 opacity-60 py-20">
                 <div className="w-28 h-28 md:w-32 md:h-32 rounded-[2.5rem] bg-slate-100 dark:bg-slate-800/50 flex items-center justify-center text-5xl md:text-6xl border border-slate-200 dark:border-slate-700 shadow-inner"><i className="fas fa-cloud-moon animate-pulse"></i></div>
                 <div className="text-center">
@@ -517,9 +1512,10 @@ const App: React.FC = () => {
                 </div>
               </div>
             ) : (
-              transcripts.map((entry, idx) => (
-                <div key={entry.id} className="relative group flex flex-col gap-6 animate-fadeIn">
+              visibleTranscripts.map((entry, idx) => (
+                <div key={entry.id} data-entry-id={entry.id} className={`relative group flex flex-col gap-6 animate-fadeIn rounded-[2.5rem] transition-shadow ${entry.id === activeHitId || entry.id === jumpId ? 'ring-4 ring-yellow-300/70 dark:ring-yellow-500/40 ring-offset-8 ring-offset-transparent' : ''}`}>
                   {idx > 0 && <div className="absolute -top-10 left-10 md:left-14 w-px h-10 bg-gradient-to-b from-transparent via-slate-200 dark:via-slate-800 to-transparent"></div>}
+                  {entry.highlight && <div className={`absolute -left-3 md:-left-5 top-2 bottom-2 w-1.5 rounded-full ${highlightInfo(entry.highlight)?.swatch}`} title="Highlighted"></div>}
                   <div className="flex items-start gap-5 md:gap-8">
                     <div className="flex flex-col items-center gap-3 pt-1">
                       <button 
@@ -530,31 +1526,98 @@ const App: React.FC = () => {
                         <img src={AVATARS[entry.role]} alt={entry.role} className="w-full h-full object-cover brightness-105 contrast-105" />
                       </button>
                       <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md ${entry.role === 'Professor' ? 'text-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'text-purple-500 bg-purple-50 dark:bg-purple-900/20'}`}>{entry.role === 'Professor' ? 'Teacher' : 'Student'}</span>
+                      {entry.typed && (
+                        <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md text-teal-600 bg-teal-50 dark:bg-teal-900/20" title="Typed instead of spoken">
+                          <i className="fas fa-keyboard text-[7px] mr-1"></i>Typed
+                        </span>
+                      )}
+                      {entry.bookmarked && (
+                        <button
+                          onClick={() => annotate(entry.id, { bookmarked: false })}
+                          className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md text-rose-600 bg-rose-50 dark:bg-rose-900/20"
+                          title="Remove bookmark"
+                        >
+                          <i className="fas fa-bookmark text-[7px] mr-1"></i>Bookmark
+                        </button>
+                      )}
+                      {isEdited(entry) && (
+                        <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md text-amber-600 bg-amber-50 dark:bg-amber-900/20" title={`Corrected ${new Date(lastEditedAt(entry)!).toLocaleString()}`}>
+                          <i className="fas fa-pen text-[7px] mr-1"></i>Edited
+                        </span>
+                      )}
                     </div>
+                    {editingId === entry.id ? (
+                      <EntryEditor
+                        key={`${entry.id}:${entry.revisions?.length ?? 0}`}
+                        entry={entry}
+                        targetLang={entryTargetLanguage(entry, pair)}
+                        accentBg={activeAccent.bg}
+                        translatorName={textTranslator.name}
+                        retranslating={retranslatingId === entry.id}
+                        onSave={patch => saveEntryEdit(entry.id, patch)}
+                        onRetranslate={text => retranslateEntry(entry, text)}
+                        onUndo={() => undoEntryEdit(entry.id)}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
                     <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-5 md:gap-8">
                       <div className="bg-white dark:bg-slate-800/40 p-6 md:p-8 rounded-[2.2rem] border border-slate-100 dark:border-slate-800 shadow-sm relative group/bubble hover:shadow-md transition-shadow">
                          <div className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-4 flex justify-between items-center">
-                            <span className="flex items-center gap-2"><i className="fas fa-quote-left text-[8px]"></i> {entry.sourceLang === 'Thai' ? 'Input: Thai' : 'Input: Chinese'}</span>
-                            <span className="opacity-0 group-hover/bubble:opacity-100 transition-opacity font-bold">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                            <span className="flex items-center gap-2"><i className="fas fa-quote-left text-[8px]"></i> Input: {languageName(entry.sourceLang)}</span>
+                            <span className="flex items-center gap-2">
+                              <span className="opacity-0 group-hover/bubble:opacity-100 transition-opacity font-bold">{entryClock(entry)}</span>
+                              {isEdited(entry) && (
+                                <button onClick={() => undoEntryEdit(entry.id)} className="p-2 hover:bg-slate-500/10 rounded-full transition-colors opacity-0 group-hover/bubble:opacity-100" title="Undo last correction">
+                                  <i className="fas fa-rotate-left"></i>
+                                </button>
+                              )}
+                              <button onClick={() => setEditingId(entry.id)} className="p-2 hover:bg-slate-500/10 rounded-full transition-colors opacity-0 group-hover/bubble:opacity-100" title="Correct text or translation">
+                                <i className="fas fa-pen"></i>
+                              </button>
+                              {entry.audio?.source && (
+                                <button onClick={() => playEntryAudio(entry, 'source')} className="p-2 hover:bg-slate-500/10 rounded-full transition-colors" title="Play original speech">
+                                  <i className={`fas ${playingKey === `${entry.id}:source` ? 'fa-stop text-red-500' : 'fa-play'}`}></i>
+                                </button>
+                              )}
+                            </span>
                          </div>
-                         <p className="text-slate-700 dark:text-slate-200 text-base md:text-xl font-medium leading-relaxed">{entry.text}</p>
+                         <p className="text-slate-700 dark:text-slate-200 text-base md:text-xl font-medium leading-relaxed"><HighlightedText text={entry.text} highlights={mergeHighlights(searchHighlights(resultsById.get(entry.id)?.textRanges), glossaryHighlights(entry.text, glossaryTerms))} /></p>
                       </div>
                       <div className={`p-6 md:p-8 rounded-[2.2rem] border shadow-2xl relative group/bubble transition-all hover:scale-[1.01] ${theme === 'dark' ? 'bg-blue-900/10 border-blue-900/30 shadow-blue-900/5' : 'bg-blue-50/40 border-blue-100 shadow-blue-500/5'}`}>
                         <div className="text-[10px] font-black text-blue-500 dark:text-blue-400 uppercase tracking-widest mb-4 flex justify-between items-center">
                           <span className="flex items-center gap-2"><i className="fas fa-check-circle text-[8px]"></i> Translation</span>
-                          <button onClick={() => copyToClipboard(entry.translation, entry.id)} className="p-2 hover:bg-blue-500/10 rounded-full transition-colors">
-                            <i className={`fas ${copiedId === entry.id ? 'fa-check text-green-500 scale-125' : 'fa-copy'} transition-transform`}></i>
-                          </button>
+                          <span className="flex items-center gap-1">
+                            {entry.audio?.translation && (
+                              <button onClick={() => playEntryAudio(entry, 'translation')} className="p-2 hover:bg-blue-500/10 rounded-full transition-colors" title="Play spoken translation">
+                                <i className={`fas ${playingKey === `${entry.id}:translation` ? 'fa-stop text-red-500' : 'fa-volume-high'}`}></i>
+                              </button>
+                            )}
+                            <button onClick={() => copyToClipboard(entry.translation, entry.id)} className="p-2 hover:bg-blue-500/10 rounded-full transition-colors">
+                              <i className={`fas ${copiedId === entry.id ? 'fa-check text-green-500 scale-125' : 'fa-copy'} transition-transform`}></i>
+                            </button>
+                          </span>
                         </div>
-                        <p className="text-slate-900 dark:text-blue-50 text-base md:text-xl font-black leading-relaxed">{entry.translation}</p>
+                        <p className="text-slate-900 dark:text-blue-50 text-base md:text-xl font-black leading-relaxed"><HighlightedText text={entry.translation} highlights={mergeHighlights(searchHighlights(resultsById.get(entry.id)?.translationRanges), glossaryHighlights(entry.translation, glossaryTerms))} /></p>
                         {copiedId === entry.id && <span className="absolute -top-3 right-10 bg-slate-900 text-white text-[9px] font-black uppercase px-3 py-1 rounded-full animate-fadeIn shadow-xl ring-2 ring-white/10">Copied!</span>}
                       </div>
                     </div>
+                    )}
                   </div>
+                  {editingId !== entry.id && <EntryAnnotations entry={entry} onChange={patch => annotate(entry.id, patch)} />}
                 </div>
               ))
             )}
           </div>
+          {!mediaProgress && (
+            <TextComposer
+              pair={pair}
+              accentBg={activeAccent.bg}
+              speak={speakTyped}
+              sending={sendingTyped}
+              onSpeakChange={setSpeakTyped}
+              onSend={sendTypedMessage}
+            />
+          )}
         </div>
       </main>
 
@@ -562,14 +1625,14 @@ const App: React.FC = () => {
         <div className="flex flex-wrap items-center justify-center lg:justify-start gap-4">
           <div className={`flex items-center gap-3 px-5 py-2.5 rounded-2xl ${activeAccent.bg} text-white shadow-2xl shadow-blue-500/10 cursor-default select-none border border-white/10`}>
             <div className="w-2.5 h-2.5 bg-green-300 rounded-full animate-pulse shadow-[0_0_12px_rgba(134,239,172,0.8)]"></div>
-            <span className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-50">Core Engine Active</span>
+            <span className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-50">{providerKind === 'mock' ? 'Offline Demo Engine' : 'Core Engine Active'}</span>
           </div>
 
           <div className={`flex items-center gap-3 px-5 py-2.5 rounded-2xl ${activeAccent.bg} text-white shadow-2xl shadow-blue-500/10 cursor-default select-none border border-white/10`}>
             <div className="w-7 h-7 rounded-full overflow-hidden border-2 border-white/50 shadow-md">
-              <img src={AVATARS[activeRole]} alt="current role" className="w-full h-full object-cover brightness-110 contrast-110" />
+              <img src={AVATARS[displayRole]} alt="current role" className="w-full h-full object-cover brightness-110 contrast-110" />
             </div>
-            <span className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-50">{activeRole === 'Professor' ? 'Professor Mode' : 'Student Mode'}</span>
+            <span className="text-[11px] font-black uppercase tracking-[0.2em] text-blue-50">{autoDetect ? 'Auto Detect Mode' : activeRole === 'Professor' ? 'Professor Mode' : 'Student Mode'}</span>
           </div>
 
           <div className={`flex items-center gap-3 px-5 py-2.5 rounded-2xl ${activeAccent.bg} text-white shadow-2xl shadow-blue-500/10 cursor-default select-none border border-white/10`}>
@@ -593,6 +1656,139 @@ const App: React.FC = () => {
         </div>
       </footer>
 
+      {showLibrary && (
+        <SessionLibrary
+          sessions={sessions}
+          currentId={currentSession?.id ?? null}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onSelect={selectSession}
+          onUpdate={updateSessionMeta}
+          onDelete={removeSession}
+          onNew={newLectureSession}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showGlossary && (
+        <GlossaryManager
+          glossaries={glossaries}
+          activeId={activeGlossaryId}
+          pair={pair}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onChange={setGlossaries}
+          onSelect={setActiveGlossaryId}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
+      {showProfiles && (
+        <ProfileManager
+          profiles={profiles}
+          activePairId={pair.id}
+          activeLevel={academicLevel}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onChange={setProfiles}
+          onActivate={(pairId, level) => { setLanguagePairId(pairId); setAcademicLevel(level); }}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {showMediaImport && (
+        <MediaImportDialog
+          accentBg={activeAccent.bg}
+          onStart={(media, speed) => { setShowMediaImport(false); startSession(media, speed); }}
+          onClose={() => setShowMediaImport(false)}
+        />
+      )}
+
+      {showContext && (
+        <ContextPanel
+          context={currentSession?.context}
+          sessionName={currentSession?.name}
+          pair={pair}
+          condenser={contextCondenser}
+          isRecording={isRecording}
+          accentBg={activeAccent.bg}
+          onChange={updateContext}
+          onClose={() => setShowContext(false)}
+        />
+      )}
+
+      {showInput && (
+        <InputPanel
+          settings={inputSettings}
+          analysers={isRecording ? analysersRef.current : []}
+          isRecording={isRecording}
+          accentBg={activeAccent.bg}
+          onChange={setInputSettings}
+          onClose={() => setShowInput(false)}
+        />
+      )}
+
+      {showPlayback && (
+        <PlaybackPanel
+          settings={playbackSettings}
+          accentBg={activeAccent.bg}
+          onChange={setPlaybackSettings}
+          onClose={() => setShowPlayback(false)}
+        />
+      )}
+
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          metrics={metrics}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
+      {showNotes && (
+        <NotesPanel
+          session={currentSession}
+          entries={transcripts}
+          pair={pair}
+          glossary={activeGlossary?.terms ?? []}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onChange={updateNotes}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
+      {showBroadcast && (
+        <BroadcastPanel
+          room={roomCode}
+          relayUrl={relayUrl}
+          status={broadcastStatus}
+          viewers={broadcastViewers}
+          accentBg={activeAccent.bg}
+          onRoomChange={setRoomCode}
+          onRelayChange={setRelayUrl}
+          onStart={startBroadcast}
+          onStop={stopBroadcast}
+          onClose={() => setShowBroadcast(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsPanel
+          bindings={shortcuts}
+          accentBg={activeAccent.bg}
+          onChange={setShortcuts}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
+
+      {shortcutNotice && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[100] px-5 py-2.5 rounded-2xl bg-slate-900/90 dark:bg-white/90 text-white dark:text-slate-900 text-xs font-black uppercase tracking-widest shadow-2xl pointer-events-none">
+          {shortcutNotice}
+        </div>
+      )}
+
       {errorMessage && (
         <div className="fixed bottom-12 left-4 right-4 md:left-1/2 md:-translate-x-1/2 bg-red-600 text-white px-8 py-5 rounded-[2rem] shadow-2xl flex items-center gap-5 animate-bounce z-[100] border-2 border-white/20">
           <i className="fas fa-exclamation-triangle text-3xl"></i>
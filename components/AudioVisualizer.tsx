@@ -5,9 +5,11 @@ interface AudioVisualizerProps {
   analyser: AnalyserNode | null;
   isActive: boolean;
   color?: string;
+  /** Speaker shown above the meter when several microphones are live. */
+  label?: string;
 }
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isActive, color = '#3b82f6' }) => {
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isActive, color = '#3b82f6', label }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -91,6 +93,9 @@ const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isActive, c
 
   return (
     <div className="relative w-full overflow-hidden py-4">
+      {label && (
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1" style={{ color: isActive ? color : undefined }}>{label}</p>
+      )}
       <canvas 
         ref={canvasRef} 
         width={800} 
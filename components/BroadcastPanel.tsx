@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import QrCode from './QrCode';
+import { BroadcastStatus, createRoomCode, isLocalOnlyAddress, joinUrl } from '../services/broadcastService';
+
+interface BroadcastPanelProps {
+  room: string;
+  relayUrl: string;
+  status: BroadcastStatus | null;
+  viewers: number;
+  accentBg: string;
+  onRoomChange: (room: string) => void;
+  onRelayChange: (url: string) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-transparent px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30 disabled:opacity-50';
+
+const STATUS_LABELS: Record<BroadcastStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'text-amber-500 bg-amber-500/10 border-amber-500/20' },
+  live: { label: 'On air', className: 'text-green-500 bg-green-500/10 border-green-500/20' },
+  reconnecting: { label: 'Relay unreachable, retrying', className: 'text-red-500 bg-red-500/10 border-red-500/20' },
+  refused: { label: 'Room hosted elsewhere', className: 'text-red-500 bg-red-500/10 border-red-500/20' },
+  replaced: { label: 'Taken over by another window', className: 'text-slate-500 bg-slate-500/10 border-slate-500/20' }
+};
+
+const BroadcastPanel: React.FC<BroadcastPanelProps> = ({ room, relayUrl, status, viewers, accentBg, onRoomChange, onRelayChange, onStart, onStop, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const broadcasting = status !== null;
+  const link = joinUrl(room, relayUrl);
+  const localOnly = isLocalOnlyAddress(window.location.href) || isLocalOnlyAddress(relayUrl);
+
+  const copyLink = () => {
+    navigator.clipboard?.writeText(link).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }).catch(err => console.error('Failed to copy: ', err));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-tower-broadcast"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Classroom Broadcast</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">Students follow the captions on their own devices</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 grid grid-cols-1 md:grid-cols-[auto_1fr] gap-8 items-start">
+          <div className="flex flex-col items-center gap-3">
+            <div className="p-2 bg-white rounded-2xl border border-slate-200 shadow-inner">
+              <QrCode value={link} size={200} />
+            </div>
+            <p className="text-3xl font-black tracking-[0.3em] text-slate-900 dark:text-white">{room}</p>
+          </div>
+
+          <div className="space-y-5">
+            <div className="flex items-center gap-3">
+              {status ? (
+                <span className={`flex items-center gap-2 text-[10px] font-black uppercase px-4 py-1.5 rounded-full border ${STATUS_LABELS[status].className}`}>
+                  <span className="w-2 h-2 rounded-full bg-current"></span> {STATUS_LABELS[status].label}
+                </span>
+              ) : (
+                <span className="text-[10px] font-black uppercase px-4 py-1.5 rounded-full border text-slate-400 bg-slate-500/10 border-slate-500/20">Off air</span>
+              )}
+              {broadcasting && <span className="text-xs font-bold text-slate-500"><i className="fas fa-users mr-1"></i>{viewers} connected</span>}
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Join link</p>
+              <div className="flex gap-2">
+                <input className={`${inputClass} font-mono text-xs`} value={link} readOnly onFocus={e => e.target.select()} />
+                <button onClick={copyLink} className="px-3 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-500" title="Copy link">
+                  <i className={`fas ${copied ? 'fa-check text-green-500' : 'fa-copy'}`}></i>
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+              <div className="space-y-1.5">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Relay server</p>
+                <input className={inputClass} value={relayUrl} disabled={broadcasting} onChange={e => onRelayChange(e.target.value)} placeholder="ws://192.168.1.10:8787" />
+              </div>
+              <button onClick={() => onRoomChange(createRoomCode())} disabled={broadcasting} className="px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-xs font-black uppercase text-slate-500 disabled:opacity-50" title="Generate a new room code">
+                <i className="fas fa-shuffle mr-1"></i> New code
+              </button>
+            </div>
+
+            {localOnly && (
+              <p className="text-xs font-bold text-amber-600 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3">
+                <i className="fas fa-triangle-exclamation mr-2"></i>
+                This page or the relay uses a localhost address, which students' phones cannot reach. Open LiveTrans through this computer's LAN address (e.g. http://192.168.1.10:3000) and run the relay with <code>npm run relay</code>.
+              </p>
+            )}
+
+            {status === 'refused' && (
+              <p className="text-xs font-bold text-red-500 bg-red-500/10 border border-red-500/20 rounded-xl px-4 py-3">
+                <i className="fas fa-lock mr-2"></i>
+                Another browser already hosts room {room} on this relay. Stop the broadcast and generate a new code.
+              </p>
+            )}
+
+            {broadcasting ? (
+              <button onClick={onStop} className="w-full py-3 rounded-2xl bg-red-500 hover:bg-red-600 text-white text-sm font-black shadow-xl shadow-red-500/20">
+                <i className="fas fa-stop mr-2"></i> Stop broadcast
+              </button>
+            ) : (
+              <button onClick={onStart} disabled={!relayUrl.trim()} className={`w-full py-3 rounded-2xl ${accentBg} hover:brightness-110 text-white text-sm font-black shadow-xl disabled:opacity-50`}>
+                <i className="fas fa-tower-broadcast mr-2"></i> Start broadcast
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BroadcastPanel;
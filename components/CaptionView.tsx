@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ACCENT_THEMES } from '../constants';
+import { LanguageId, TranscriptEntry } from '../types';
+import { getLanguagePair, languageForRole, LANGUAGES, pairLanguages } from '../services/languageService';
+import {
+  CaptionFeed, CaptionLanguage, CaptionScheme, CaptionSettings, CaptionSubscribe,
+  CAPTION_HISTORY, captionColors, loadCaptionSettings, saveCaptionSettings, subscribeCaptions
+} from '../services/captionChannel';
+
+interface CaptionViewProps {
+  /** Where feeds come from; defaults to the operator window on this device. */
+  subscribe?: CaptionSubscribe;
+  waitingLabel?: string;
+}
+
+interface CaptionLine {
+  key: string;
+  text: string;
+  translation: string;
+  sourceLang: LanguageId;
+}
+
+const FONT_MIN = 24;
+const FONT_MAX = 128;
+const TOOLBAR_HIDE_MS = 3000;
+
+const toolbarButton = 'h-9 min-w-9 px-3 rounded-xl text-xs font-black uppercase tracking-tight bg-white/10 hover:bg-white/20 text-white disabled:opacity-30';
+
+const CaptionView: React.FC<CaptionViewProps> = ({ subscribe = subscribeCaptions, waitingLabel = 'Waiting for the operator window…' }) => {
+  const [feed, setFeed] = useState<CaptionFeed | null>(null);
+  const [settings, setSettings] = useState<CaptionSettings>(loadCaptionSettings);
+  const [showToolbar, setShowToolbar] = useState(true);
+  const hideTimerRef = useRef<number | null>(null);
+
+  useEffect(() => subscribe(setFeed), [subscribe]);
+
+  useEffect(() => {
+    saveCaptionSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    document.title = feed?.sessionName ? `Captions · ${feed.sessionName}` : 'LiveTrans Captions';
+  }, [feed?.sessionName]);
+
+  const revealToolbar = () => {
+    setShowToolbar(true);
+    if (hideTimerRef.current) window.clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = window.setTimeout(() => setShowToolbar(false), TOOLBAR_HIDE_MS);
+  };
+
+  useEffect(() => {
+    revealToolbar();
+    return () => { if (hideTimerRef.current) window.clearTimeout(hideTimerRef.current); };
+  }, []);
+
+  const update = (patch: Partial<CaptionSettings>) => setSettings(s => ({ ...s, ...patch }));
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else document.documentElement.requestFullscreen().catch(err => console.error('Fullscreen failed:', err));
+  };
+
+  const accent = ACCENT_THEMES[feed?.accentTheme ?? 'professional'];
+  const colors = captionColors(settings.scheme, accent.hex);
+  const pair = getLanguagePair(feed?.pairId);
+  const languages = pairLanguages(pair);
+
+  const finished: CaptionLine[] = (feed?.entries ?? []).map((entry: TranscriptEntry) => ({ key: entry.id, text: entry.text, translation: entry.translation, sourceLang: entry.sourceLang }));
+  const hasLive = Boolean(feed && (feed.currentInput || feed.currentOutput));
+  const lines = hasLive
+    ? [...finished.slice(finished.length - settings.lines), { key: 'live', text: feed!.currentInput, translation: feed!.currentOutput, sourceLang: languageForRole(feed!.liveRole, pair) }]
+    : finished.slice(-(settings.lines + 1));
+
+  const renderLine = (line: CaptionLine, newest: boolean) => {
+    const size = newest ? settings.fontSize : Math.round(settings.fontSize * 0.7);
+    // A preferred language picks whichever side of the turn is written in it; one saved
+    // for a different language pair falls back to showing both sides
+    const sides = ['source', 'translation', 'both'];
+    const language = sides.includes(settings.language) || languages.includes(settings.language) ? settings.language : 'both';
+    const preferred = !sides.includes(language);
+    const showSource = preferred ? line.sourceLang === language : language !== 'translation';
+    const showTranslation = preferred ? line.sourceLang !== language : language !== 'source';
+    const both = showSource && showTranslation;
+    return (
+      <div key={line.key} className="transition-opacity duration-500" style={{ opacity: newest ? 1 : 0.55 }}>
+        {showSource && line.text && (
+          <p
+            className="font-semibold leading-snug"
+            style={{ fontSize: both ? Math.round(size * 0.6) : size, color: both ? colors.muted : colors.text }}
+          >
+            {line.text}
+          </p>
+        )}
+        {showTranslation && line.translation && (
+          <p className="font-black leading-snug" style={{ fontSize: size, color: colors.text }}>{line.translation}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col overflow-hidden font-sans"
+      style={{ background: colors.background, cursor: showToolbar ? 'default' : 'none' }}
+      onPointerMove={revealToolbar}
+      onPointerDown={revealToolbar}
+      onDoubleClick={toggleFullscreen}
+    >
+      <div className="h-2 shrink-0" style={{ background: colors.accent }}></div>
+
+      <div className="flex-1 flex flex-col justify-end gap-8 px-[6vw] pb-[6vh] min-h-0">
+        {!feed && (
+          <p className="text-center text-2xl font-bold self-center mb-auto mt-auto" style={{ color: colors.muted }}>
+            <i className="fas fa-tower-broadcast mr-3"></i>{waitingLabel}
+          </p>
+        )}
+        {feed && lines.length === 0 && (
+          <p className="text-center text-2xl font-bold self-center mb-auto mt-auto" style={{ color: colors.muted }}>
+            <i className="fas fa-microphone-lines mr-3"></i>{feed.live ? 'Listening…' : 'Session not started'}
+          </p>
+        )}
+        {lines.map((line, i) => renderLine(line, i === lines.length - 1))}
+      </div>
+
+      <div className={`absolute top-4 left-1/2 -translate-x-1/2 flex flex-wrap items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-slate-900/85 backdrop-blur shadow-2xl transition-opacity duration-300 ${showToolbar ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+        <span className={`flex items-center gap-2 px-3 text-[10px] font-black uppercase tracking-widest ${feed?.live ? 'text-green-400' : 'text-slate-400'}`}>
+          <span className={`w-2 h-2 rounded-full ${feed?.live ? 'bg-green-400 animate-pulse' : 'bg-slate-500'}`}></span>
+          {feed?.live ? 'Live' : 'Idle'}
+        </span>
+
+        <div className="flex items-center gap-1">
+          <button className={toolbarButton} disabled={settings.fontSize <= FONT_MIN} onClick={() => update({ fontSize: Math.max(FONT_MIN, settings.fontSize - 8) })} title="Smaller text"><i className="fas fa-minus"></i></button>
+          <span className="w-14 text-center text-xs font-black text-white">{settings.fontSize}px</span>
+          <button className={toolbarButton} disabled={settings.fontSize >= FONT_MAX} onClick={() => update({ fontSize: Math.min(FONT_MAX, settings.fontSize + 8) })} title="Larger text"><i className="fas fa-plus"></i></button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <button className={toolbarButton} disabled={settings.lines <= 0} onClick={() => update({ lines: settings.lines - 1 })} title="Fewer previous lines"><i className="fas fa-minus"></i></button>
+          <span className="w-16 text-center text-xs font-black text-white"><i className="fas fa-bars-staggered mr-1"></i>{settings.lines}</span>
+          <button className={toolbarButton} disabled={settings.lines >= CAPTION_HISTORY - 1} onClick={() => update({ lines: settings.lines + 1 })} title="More previous lines"><i className="fas fa-plus"></i></button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {([
+            { language: 'source', label: 'Source' },
+            { language: 'translation', label: 'Translation' },
+            { language: 'both', label: 'Both' },
+            ...languages.map(id => ({ language: id, label: LANGUAGES[id].nativeName }))
+          ] as { language: CaptionLanguage; label: string }[]).map(({ language, label }) => (
+            <button key={language} onClick={() => update({ language })} className={`${toolbarButton} ${settings.language === language ? '!bg-white !text-slate-900' : ''}`}>{label}</button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {(['dark', 'light', 'accent', 'contrast'] as CaptionScheme[]).map(scheme => {
+            const swatch = captionColors(scheme, accent.hex);
+            return (
+              <button
+                key={scheme}
+                onClick={() => update({ scheme })}
+                title={scheme}
+                className={`w-9 h-9 rounded-xl border-2 text-sm font-black ${settings.scheme === scheme ? 'border-white scale-110' : 'border-white/20'}`}
+                style={{ background: swatch.background, color: swatch.text }}
+              >
+                A
+              </button>
+            );
+          })}
+        </div>
+
+        <button className={toolbarButton} onClick={toggleFullscreen} title="Full screen (double-click)"><i className="fas fa-expand"></i></button>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionView;
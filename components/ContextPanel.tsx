@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { ContextDocument, ContextDocumentKind, LanguagePair, LectureContext } from '../types';
+import {
+  ContextCondenser,
+  CONTEXT_ACCEPT,
+  CONTEXT_BUDGET_CHARS,
+  CONTEXT_KINDS,
+  createContextDocument,
+  emptyContext,
+  fitToBudget,
+  isDigestStale,
+  readContextFile
+} from '../services/contextService';
+
+interface ContextPanelProps {
+  context: LectureContext | undefined;
+  sessionName: string | undefined;
+  pair: LanguagePair;
+  condenser: ContextCondenser;
+  isRecording: boolean;
+  accentBg: string;
+  onChange: (context: LectureContext) => void;
+  onClose: () => void;
+}
+
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-900/40 px-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-800 dark:text-slate-100 focus:outline-none';
+
+/**
+ * Material for today's lecture. Documents are condensed into a short digest that is
+ * added to the translator instruction; the digest can be edited by hand before class.
+ */
+const ContextPanel: React.FC<ContextPanelProps> = ({ context = emptyContext(), sessionName, pair, condenser, isRecording, accentBg, onChange, onClose }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<ContextDocumentKind>('slides');
+  const [pasteName, setPasteName] = useState('');
+  const [pasteText, setPasteText] = useState('');
+  const [busy, setBusy] = useState<'' | 'reading' | 'condensing'>('');
+  const [error, setError] = useState('');
+
+  const update = (patch: Partial<LectureContext>) => onChange({ ...context, ...patch });
+
+  const addDocument = (name: string, text: string) => {
+    if (!text.trim()) return;
+    update({ documents: [...context.documents, createContextDocument(name, kind, text)] });
+  };
+
+  const addFiles = async (files: File[]) => {
+    setError('');
+    setBusy('reading');
+    try {
+      const added: ContextDocument[] = [];
+      for (const file of files) added.push(createContextDocument(file.name.replace(/\.[^.]+$/, ''), kind, await readContextFile(file)));
+      update({ documents: [...context.documents, ...added.filter(d => d.text)] });
+    } catch (err: any) {
+      console.error('Context file read failed:', err);
+      setError(`ไม่สามารถอ่านไฟล์ได้: ${err.message || 'Unknown'}`);
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const condense = async () => {
+    setError('');
+    setBusy('condensing');
+    try {
+      const digest = await condenser.condense(context.documents, pair);
+      update({ digest, digestSourceIds: context.documents.map(d => d.id), generatedAt: Date.now(), generator: condenser.name });
+    } catch (err: any) {
+      console.error('Context condensing failed:', err);
+      setError(`สรุปเอกสารประกอบไม่สำเร็จ: ${err.message || 'Unknown'}`);
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const used = context.digest.trim().length;
+  const ratio = Math.min(1, used / CONTEXT_BUDGET_CHARS);
+  const stale = isDigestStale(context);
+  const kindLabel = (k: ContextDocumentKind) => CONTEXT_KINDS.find(c => c.kind === k)?.label ?? k;
+
+  const segment = (active: boolean) => `flex-1 px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all ${
+    active ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-book-open"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Lecture Context</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2 truncate max-w-[16rem]">{sessionName || 'New session'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-7">
+          <section>
+            <p className={sectionTitleClass}>Documents</p>
+            {context.documents.length === 0 ? (
+              <p className="text-xs font-bold text-slate-400">Add slide text, the syllabus or the reading list so names and terms from today's topic are recognized.</p>
+            ) : (
+              <ul className="space-y-2">
+                {context.documents.map(doc => (
+                  <li key={doc.id} className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700">
+                    <span className="min-w-0">
+                      <span className="block text-sm font-black text-slate-800 dark:text-slate-100 truncate">{doc.name}</span>
+                      <span className="block text-xs font-bold text-slate-400">{kindLabel(doc.kind)} · {doc.text.length.toLocaleString()} characters</span>
+                    </span>
+                    <button
+                      onClick={() => update({ documents: context.documents.filter(d => d.id !== doc.id) })}
+                      title="Remove"
+                      className="w-8 h-8 shrink-0 flex items-center justify-center rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/20"
+                    >
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <p className={sectionTitleClass}>Add material</p>
+            <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+              {CONTEXT_KINDS.map(k => (
+                <button key={k.kind} onClick={() => setKind(k.kind)} className={segment(kind === k.kind)}>{k.label}</button>
+              ))}
+            </div>
+            <input ref={fileRef} type="file" multiple accept={CONTEXT_ACCEPT} className="hidden" onChange={e => { const files: File[] = e.target.files ? Array.from(e.target.files) : []; if (files.length) addFiles(files); e.target.value = ''; }} />
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={busy !== ''}
+              className="w-full px-4 py-4 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-500 hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-50"
+            >
+              {busy === 'reading'
+                ? <><i className="fas fa-circle-notch animate-spin mr-2"></i>Reading…</>
+                : <><i className="fas fa-upload mr-2"></i>Upload text, Markdown, CSV or PDF</>}
+            </button>
+            <input value={pasteName} onChange={e => setPasteName(e.target.value)} placeholder="Title (e.g. Week 5 slides)" className={inputClass} />
+            <textarea value={pasteText} onChange={e => setPasteText(e.target.value)} rows={4} placeholder="…or paste the text here" className={`${inputClass} resize-none`} />
+            <button
+              onClick={() => { addDocument(pasteName || kindLabel(kind), pasteText); setPasteName(''); setPasteText(''); }}
+              disabled={!pasteText.trim()}
+              className="px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 disabled:opacity-50"
+            >
+              <i className="fas fa-plus mr-2"></i>Add pasted text
+            </button>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Digest sent to the translator</p>
+              <button
+                onClick={condense}
+                disabled={context.documents.length === 0 || busy !== ''}
+                className={`px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight text-white ${accentBg} shadow-lg disabled:opacity-50`}
+              >
+                <i className={`fas ${busy === 'condensing' ? 'fa-circle-notch animate-spin' : 'fa-wand-magic-sparkles'} mr-2`}></i>Condense
+              </button>
+            </div>
+            <textarea
+              value={context.digest}
+              onChange={e => update({ digest: e.target.value })}
+              onBlur={() => used > CONTEXT_BUDGET_CHARS && update({ digest: fitToBudget(context.digest) })}
+              rows={8}
+              placeholder="Condense the documents, or write the names and terms to listen for."
+              className={`${inputClass} resize-y font-mono text-xs`}
+            />
+            <div className="mt-2 h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+              <div className={`h-full ${used > CONTEXT_BUDGET_CHARS ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : accentBg}`} style={{ width: `${ratio * 100}%` }}></div>
+            </div>
+            <p className="text-xs font-bold text-slate-400 mt-2">
+              {used.toLocaleString()} / {CONTEXT_BUDGET_CHARS.toLocaleString()} characters
+              {used > CONTEXT_BUDGET_CHARS && ' · will be cut to the budget'}
+              {context.generator && ` · condensed by ${context.generator}`}
+            </p>
+            {stale && <p className="text-xs font-bold text-amber-500 mt-2">The documents changed since the digest was condensed.</p>}
+            {isRecording && <p className="text-xs font-bold text-amber-500 mt-2">The live session keeps the context it started with; changes apply from the next connection.</p>}
+            {error && <p className="text-xs font-bold text-red-500 mt-2">{error}</p>}
+          </section>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3">
+          <p className="text-xs font-bold text-slate-400">Saved with this session and carried into the next one.</p>
+          <button
+            onClick={() => onChange(emptyContext())}
+            disabled={context.documents.length === 0 && !context.digest}
+            className="px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest text-red-500 hover:bg-red-50 dark:hover:bg-red-950/20 disabled:opacity-40"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextPanel;
@@ -0,0 +1,160 @@
+import React from 'react';
+import { LATENCY_METRICS, metricsToJson, SessionMetrics, summarizeMetrics, TurnMetrics, TurnStage, turnLatency } from '../services/metricsService';
+import { downloadFile, safeFilename } from '../services/fileService';
+
+interface DiagnosticsPanelProps {
+  metrics: SessionMetrics | null;
+  accentBg: string;
+  isRecording: boolean;
+  onClose: () => void;
+}
+
+const RECENT_TURNS = 30;
+// The interval listeners notice: from speaking to hearing the translation
+const HEADLINE_METRIC = LATENCY_METRICS.find(m => m.key === 'firstAudio')!;
+
+const STAGES: { stage: TurnStage; label: string; color: string }[] = [
+  { stage: 'speechStart', label: 'Speech', color: 'bg-slate-400' },
+  { stage: 'firstInput', label: 'Transcript', color: 'bg-blue-500' },
+  { stage: 'firstOutputText', label: 'Translation', color: 'bg-indigo-500' },
+  { stage: 'firstOutputAudio', label: 'Audio', color: 'bg-purple-500' },
+  { stage: 'playbackStart', label: 'Playback', color: 'bg-green-500' },
+  { stage: 'turnComplete', label: 'Done', color: 'bg-slate-900 dark:bg-white' }
+];
+
+const formatMs = (ms: number | null) => ms === null ? '—' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ metrics, accentBg, isRecording, onClose }) => {
+  const summary = metrics ? summarizeMetrics(metrics) : null;
+
+  const exportJson = () => {
+    if (!metrics) return;
+    const stamp = new Date(metrics.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    downloadFile(metricsToJson(metrics), `${safeFilename(metrics.sessionName || 'LiveTrans_Session')}_metrics_${stamp}.json`, 'application/json');
+  };
+
+  const renderTimeline = (turn: TurnMetrics) => {
+    const origin = turn.speechStart ?? turn.firstInput;
+    const end = turn.turnComplete ?? Math.max(...STAGES.map(s => turn[s.stage] ?? 0));
+    if (origin === undefined || end <= origin) return <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800"></div>;
+    return (
+      <div className="relative h-2 rounded-full bg-slate-100 dark:bg-slate-800">
+        {STAGES.map(({ stage, label, color }) => turn[stage] !== undefined && (
+          <span
+            key={stage}
+            className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full ${color}`}
+            style={{ left: `${Math.max(0, Math.min(1, (turn[stage]! - origin) / (end - origin))) * 100}%` }}
+            title={`${label}: +${formatMs(turn[stage]! - origin)}`}
+          ></span>
+        ))}
+      </div>
+    );
+  };
+
+  const tile = (label: string, value: string | number, tone = 'text-slate-800 dark:text-slate-100') => (
+    <div className="bg-slate-50 dark:bg-slate-900/40 rounded-2xl px-4 py-3 border border-slate-100 dark:border-slate-800">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+      <p className={`text-xl font-black mt-1 tabular-nums ${tone}`}>{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className={`w-11 h-11 shrink-0 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-gauge-high"></i></div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black dark:text-white leading-none">Diagnostics</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2 truncate">
+                {metrics ? `${metrics.sessionName} · ${metrics.provider} · ${isRecording ? 'Live' : 'Last run'}` : 'Start a session to collect timings'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={exportJson} disabled={!metrics} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-lg transition-all active:scale-95 text-xs font-black uppercase tracking-tight flex items-center gap-2 disabled:opacity-40" title="Export metrics as JSON">
+              <i className="fas fa-download"></i> JSON
+            </button>
+            <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {!metrics || !summary ? (
+            <div className="text-center py-16 text-slate-400">
+              <i className="fas fa-gauge-high text-4xl mb-4 opacity-40"></i>
+              <p className="text-sm font-bold">No timings yet. Latency is measured for every turn once a live session starts.</p>
+            </div>
+          ) : (
+            <>
+              <section className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {tile('Completed', summary.turns.completed, 'text-green-600')}
+                {tile('Interrupted', summary.turns.interrupted, summary.turns.interrupted ? 'text-amber-500' : undefined)}
+                {tile('Dropped', summary.turns.dropped, summary.turns.dropped ? 'text-red-500' : undefined)}
+                {tile('Reconnects', summary.reconnects, summary.reconnects ? 'text-amber-500' : undefined)}
+                {tile('Connect', formatMs(summary.connectMs))}
+              </section>
+
+              <section>
+                <p className={sectionTitleClass}>Latency per turn</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-right">
+                      <th className="text-left py-2">Interval</th><th>n</th><th>p50</th><th>p90</th><th>p95</th><th>max</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {LATENCY_METRICS.map(metric => {
+                      const p = summary.latency[metric.key];
+                      return (
+                        <tr key={metric.key} className="border-t border-slate-100 dark:border-slate-800 text-right tabular-nums text-slate-700 dark:text-slate-200">
+                          <td className="text-left py-2.5 font-bold">{metric.label}</td>
+                          <td className="text-slate-400">{p.count}</td>
+                          <td className="font-black">{formatMs(p.p50)}</td>
+                          <td>{formatMs(p.p90)}</td>
+                          <td>{formatMs(p.p95)}</td>
+                          <td className="text-slate-400">{formatMs(p.max)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {summary.reconnects > 0 && (
+                  <p className="text-xs font-bold text-slate-400 mt-3">
+                    {summary.reconnectAttempts} reconnect attempts · {formatMs(summary.downtimeMs)} offline
+                  </p>
+                )}
+              </section>
+
+              <section>
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Recent turns</p>
+                  <div className="flex flex-wrap gap-3">
+                    {STAGES.map(({ stage, label, color }) => (
+                      <span key={stage} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400"><span className={`w-2 h-2 rounded-full ${color}`}></span>{label}</span>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {metrics.turns.slice(-RECENT_TURNS).reverse().map(turn => (
+                    <div key={turn.index} className="grid grid-cols-[3rem_1fr_6rem_5.5rem] items-center gap-4 text-xs">
+                      <span className="font-black text-slate-400 tabular-nums">#{turn.index}</span>
+                      {renderTimeline(turn)}
+                      <span className="text-right font-bold tabular-nums text-slate-600 dark:text-slate-300">{formatMs(turnLatency(turn, HEADLINE_METRIC))}</span>
+                      <span className={`text-right text-[10px] font-black uppercase ${turn.outcome === 'completed' ? 'text-green-600' : turn.outcome === 'interrupted' ? 'text-amber-500' : 'text-red-500'}`}>{turn.outcome}</span>
+                    </div>
+                  ))}
+                  {metrics.turns.length === 0 && <p className="text-xs font-bold text-slate-400">No completed turns yet</p>}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
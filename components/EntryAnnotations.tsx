@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { TranscriptEntry } from '../types';
+import { EntryAnnotation, HIGHLIGHT_COLORS, isMarked } from '../services/annotationService';
+
+interface EntryAnnotationsProps {
+  entry: TranscriptEntry;
+  onChange: (patch: Partial<EntryAnnotation>) => void;
+}
+
+const toolClass = (active: boolean) => `w-8 h-8 flex items-center justify-center rounded-full transition-colors hover:bg-slate-500/10 ${active ? '' : 'text-slate-400'}`;
+
+/**
+ * Star, bookmark, colour and note controls under a transcript entry. The toolbar shows on
+ * hover unless the entry already carries a mark; the note is shown beneath it.
+ */
+const EntryAnnotations: React.FC<EntryAnnotationsProps> = ({ entry, onChange }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const note = entry.annotation?.trim() ?? '';
+  const marked = isMarked(entry);
+
+  const startEditing = () => { setDraft(entry.annotation ?? ''); setEditing(true); };
+  const saveNote = () => { onChange({ annotation: draft.trim() }); setEditing(false); };
+
+  return (
+    <div className="md:ml-28 flex flex-col gap-3">
+      <div className={`flex flex-wrap items-center gap-1 transition-opacity ${marked || editing ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+        <button onClick={() => onChange({ starred: !entry.starred })} className={toolClass(Boolean(entry.starred))} title={entry.starred ? 'Unstar' : 'Star'}>
+          <i className={`${entry.starred ? 'fas text-amber-400' : 'far'} fa-star`}></i>
+        </button>
+        <button onClick={() => onChange({ bookmarked: !entry.bookmarked })} className={toolClass(Boolean(entry.bookmarked))} title={entry.bookmarked ? 'Remove bookmark' : 'Bookmark'}>
+          <i className={`${entry.bookmarked ? 'fas text-rose-500' : 'far'} fa-bookmark`}></i>
+        </button>
+        <span className="w-px h-4 bg-slate-200 dark:bg-slate-700 mx-1"></span>
+        {HIGHLIGHT_COLORS.map(({ color, label, swatch }) => (
+          <button
+            key={color}
+            onClick={() => onChange({ highlight: entry.highlight === color ? undefined : color })}
+            className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-slate-500/10"
+            title={entry.highlight === color ? 'Remove highlight' : `${label} highlight`}
+          >
+            <span className={`w-3.5 h-3.5 rounded-full ${swatch} ${entry.highlight === color ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-slate-900' : 'opacity-60'}`}></span>
+          </button>
+        ))}
+        <span className="w-px h-4 bg-slate-200 dark:bg-slate-700 mx-1"></span>
+        <button onClick={startEditing} className={toolClass(Boolean(note))} title={note ? 'Edit note' : 'Add note'}>
+          <i className={`${note ? 'fas text-slate-600 dark:text-slate-300' : 'far'} fa-comment`}></i>
+        </button>
+      </div>
+
+      {editing ? (
+        <div className="flex flex-col gap-2">
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) { e.preventDefault(); saveNote(); }
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            rows={2}
+            placeholder="Note on this turn (Ctrl+Enter to save)"
+            className="w-full resize-y bg-white dark:bg-slate-800/40 px-4 py-3 rounded-2xl border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-200 focus:outline-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(false)} className="px-4 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Cancel</button>
+            <button onClick={saveNote} className="px-4 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-widest text-white bg-slate-900 dark:bg-slate-700">Save note</button>
+          </div>
+        </div>
+      ) : note && (
+        <button onClick={startEditing} className="text-left px-4 py-3 rounded-2xl border-l-4 border-rose-400 bg-white/70 dark:bg-slate-800/40 text-sm font-medium italic text-slate-600 dark:text-slate-300 whitespace-pre-wrap" title="Edit note">
+          {note}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EntryAnnotations;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TranscriptEntry } from '../types';
+import { languageName } from '../services/languageService';
+
+interface EntryEditorProps {
+  entry: TranscriptEntry;
+  targetLang: string;
+  accentBg: string;
+  translatorName: string;
+  retranslating: boolean;
+  onSave: (patch: Pick<TranscriptEntry, 'text' | 'translation'>) => void;
+  onRetranslate: (text: string) => void;
+  onUndo: () => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-white dark:bg-slate-900/40 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 text-base leading-relaxed text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30 resize-y';
+const buttonClass = 'px-4 py-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-lg transition-all active:scale-95 text-xs font-black uppercase tracking-tight flex items-center gap-2 disabled:opacity-40';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2';
+
+const EntryEditor: React.FC<EntryEditorProps> = ({ entry, targetLang, accentBg, translatorName, retranslating, onSave, onRetranslate, onUndo, onCancel }) => {
+  const [text, setText] = useState(entry.text);
+  const [translation, setTranslation] = useState(entry.translation);
+  const revisions = entry.revisions ?? [];
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onCancel();
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); onSave({ text, translation }); }
+  };
+
+  return (
+    <div className="flex-1 bg-white dark:bg-slate-800/40 p-6 md:p-8 rounded-[2.2rem] border-2 border-blue-200 dark:border-blue-900/50 shadow-xl flex flex-col gap-5" onKeyDown={handleKeyDown}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div>
+          <p className={labelClass}>Input: {languageName(entry.sourceLang)}</p>
+          <textarea className={inputClass} rows={4} value={text} onChange={e => setText(e.target.value)} autoFocus />
+        </div>
+        <div>
+          <p className={labelClass}>Translation: {languageName(targetLang)}</p>
+          <textarea className={`${inputClass} font-bold`} rows={4} value={translation} onChange={e => setTranslation(e.target.value)} disabled={retranslating} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button onClick={() => onRetranslate(text)} disabled={retranslating || !text.trim()} className={buttonClass} title={`Translate the corrected input again with ${translatorName}`}>
+            <i className={`fas ${retranslating ? 'fa-spinner animate-spin' : 'fa-language'}`}></i> Re-translate
+          </button>
+          <button onClick={onUndo} disabled={revisions.length === 0 || retranslating} className={buttonClass} title="Restore the version before the last correction">
+            <i className="fas fa-rotate-left"></i> Undo
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className={buttonClass}>Cancel</button>
+          <button onClick={() => onSave({ text, translation })} disabled={retranslating} className={`px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-tight text-white ${accentBg} disabled:opacity-40`} title="Save (Ctrl+Enter)">
+            <i className="fas fa-check mr-1"></i> Save
+          </button>
+        </div>
+      </div>
+
+      {revisions.length > 0 && (
+        <div className="border-t border-slate-100 dark:border-slate-800 pt-4">
+          <p className={labelClass}>Revision history</p>
+          <ol className="space-y-2 max-h-56 overflow-y-auto">
+            {revisions.slice().reverse().map((revision, i) => (
+              <li key={revisions.length - i} className="text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-900/40 rounded-xl px-4 py-3">
+                <p className="font-black uppercase tracking-tight text-[10px] mb-1">
+                  {revision.reason === 'retranslate' ? 'Re-translated' : 'Edited'} · {new Date(revision.editedAt).toLocaleString()} · before:
+                </p>
+                <p className="line-clamp-2">{revision.text}</p>
+                <p className="line-clamp-2 font-bold">{revision.translation}</p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntryEditor;
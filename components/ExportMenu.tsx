@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioTrack, LectureSession, TranscriptEntry } from '../types';
+import { SubtitleTrack, toBilingualHtml, toPlainText, toSrt, toTranscriptJson, toVtt } from '../services/exportService';
+import { downloadFile, safeFilename } from '../services/fileService';
+import { loadTrackWav } from '../services/recordingService';
+
+interface ExportMenuProps {
+  session: Omit<LectureSession, 'entries'> | null;
+  entries: TranscriptEntry[];
+  onImport: (file: File) => void;
+}
+
+const itemClass = 'w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-left text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session, entries, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [track, setTrack] = useState<SubtitleTrack>('dual');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const baseName = safeFilename(session?.name || 'LiveTrans_Session');
+  const empty = entries.length === 0;
+
+  const run = (action: () => void) => () => { action(); setOpen(false); };
+
+  const downloadAudio = async (track: AudioTrack) => {
+    if (!session) return;
+    setOpen(false);
+    try {
+      const wav = await loadTrackWav(session.id, track);
+      if (wav) downloadFile(wav, `${baseName}_${track}.wav`, 'audio/wav');
+    } catch (err) {
+      console.error('Audio export failed:', err);
+    }
+  };
+
+  const openPrintView = () => {
+    const url = URL.createObjectURL(new Blob([toBilingualHtml(session, entries, { autoPrint: true })], { type: 'text/html' }));
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button onClick={() => setOpen(o => !o)} className="p-3 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95" title="Export / Import">
+        <i className="fas fa-file-export"></i>
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-50 bg-white dark:bg-[#111827] rounded-2xl shadow-2xl border border-slate-100 dark:border-slate-800 p-2 animate-fadeIn">
+          <p className="px-4 pt-2 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Subtitles</p>
+          <div className="flex gap-1 px-2 pb-2">
+            {(['source', 'target', 'dual'] as SubtitleTrack[]).map(t => (
+              <button key={t} onClick={() => setTrack(t)} className={`flex-1 px-2 py-1.5 rounded-lg text-[10px] font-black uppercase ${track === t ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900' : 'text-slate-400 bg-slate-100 dark:bg-slate-800'}`}>
+                {t === 'source' ? 'Source' : t === 'target' ? 'Translation' : 'Dual'}
+              </button>
+            ))}
+          </div>
+          <button disabled={empty} onClick={run(() => downloadFile(toSrt(entries, track, session?.startedAt), `${baseName}_${track}.srt`, 'application/x-subrip'))} className={itemClass}>
+            <i className="fas fa-closed-captioning w-4"></i> SRT subtitles
+          </button>
+          <button disabled={empty} onClick={run(() => downloadFile(toVtt(entries, track, session?.startedAt), `${baseName}_${track}.vtt`, 'text/vtt'))} className={itemClass}>
+            <i className="fas fa-closed-captioning w-4"></i> WebVTT subtitles
+          </button>
+          <div className="my-2 h-px bg-slate-100 dark:bg-slate-800"></div>
+          <p className="px-4 pt-1 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Documents</p>
+          <button disabled={empty} onClick={run(() => downloadFile(toPlainText(entries, session), `${baseName}.txt`))} className={itemClass}>
+            <i className="fas fa-file-lines w-4"></i> Plain text
+          </button>
+          <button disabled={empty} onClick={run(() => downloadFile(toBilingualHtml(session, entries), `${baseName}.doc`, 'application/msword'))} className={itemClass}>
+            <i className="fas fa-file-word w-4"></i> Word document (bilingual)
+          </button>
+          <button disabled={empty} onClick={run(openPrintView)} className={itemClass}>
+            <i className="fas fa-print w-4"></i> Print / PDF handout
+          </button>
+          {session?.recorded && (
+            <>
+              <div className="my-2 h-px bg-slate-100 dark:bg-slate-800"></div>
+              <p className="px-4 pt-1 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Recording</p>
+              <button onClick={() => downloadAudio('source')} className={itemClass}>
+                <i className="fas fa-microphone w-4"></i> Lecture audio (WAV)
+              </button>
+              <button onClick={() => downloadAudio('translation')} className={itemClass}>
+                <i className="fas fa-volume-high w-4"></i> Spoken translation (WAV)
+              </button>
+            </>
+          )}
+          <div className="my-2 h-px bg-slate-100 dark:bg-slate-800"></div>
+          <p className="px-4 pt-1 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Data</p>
+          <button disabled={empty} onClick={run(() => downloadFile(toTranscriptJson(session, entries), `${baseName}.json`, 'application/json'))} className={itemClass}>
+            <i className="fas fa-code w-4"></i> JSON (lossless)
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={itemClass}>
+            <i className="fas fa-file-import w-4"></i> Import JSON as new session
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) { onImport(file); setOpen(false); }
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { Glossary, LanguageId, LanguagePair } from '../types';
+import { createGlossary, createGlossaryId, csvToTerms, glossaryLanguages, glossaryToCsv, glossaryToTbx, tbxToGlossary } from '../services/glossaryService';
+import { LANGUAGES, languageName, pairLanguages } from '../services/languageService';
+import { downloadFile, readFileAsText, safeFilename } from '../services/fileService';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  activeId: string | null;
+  /** Its languages always get a column; other columns appear once a term uses them. */
+  pair: LanguagePair;
+  accentBg: string;
+  isRecording: boolean;
+  onChange: (glossaries: Glossary[]) => void;
+  onSelect: (id: string | null) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-transparent px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+const TERM_PLACEHOLDERS: Record<LanguageId, string> = {
+  Thai: 'ระเบียบวิธีวิจัย',
+  Chinese: '研究方法',
+  English: 'Research methodology',
+  Japanese: '研究方法論',
+  Vietnamese: 'Phương pháp nghiên cứu'
+};
+
+const iconButtonClass = 'p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-lg transition-all active:scale-95 text-xs font-black uppercase tracking-tight flex items-center gap-2';
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossaries, activeId, pair, accentBg, isRecording, onChange, onSelect, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(activeId ?? glossaries[0]?.id ?? null);
+  const [addedLanguages, setAddedLanguages] = useState<LanguageId[]>([]);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = glossaries.find(g => g.id === selectedId) ?? null;
+  const shown = new Set([...pairLanguages(pair), ...addedLanguages, ...glossaryLanguages(selected?.terms ?? [])]);
+  const columns = Object.keys(LANGUAGES).filter(lang => shown.has(lang));
+  const addable = Object.keys(LANGUAGES).filter(lang => !shown.has(lang));
+
+  const updateGlossary = (id: string, update: (g: Glossary) => Glossary) => {
+    onChange(glossaries.map(g => g.id === id ? { ...update(g), updatedAt: Date.now() } : g));
+  };
+
+  const updateTerm = (termId: string, lang: LanguageId, value: string) => {
+    if (!selected) return;
+    updateGlossary(selected.id, g => ({ ...g, terms: g.terms.map(t => t.id === termId ? { ...t, text: { ...t.text, [lang]: value } } : t) }));
+  };
+
+  const updateNote = (termId: string, note: string) => {
+    if (!selected) return;
+    updateGlossary(selected.id, g => ({ ...g, terms: g.terms.map(t => t.id === termId ? { ...t, note } : t) }));
+  };
+
+  const addCourse = () => {
+    const course = window.prompt('ชื่อรายวิชา (Course name)');
+    if (!course?.trim()) return;
+    const glossary = createGlossary(course.trim());
+    onChange([...glossaries, glossary]);
+    setSelectedId(glossary.id);
+    if (!activeId) onSelect(glossary.id);
+  };
+
+  const renameCourse = () => {
+    if (!selected) return;
+    const course = window.prompt('ชื่อรายวิชา (Course name)', selected.course);
+    if (course?.trim()) updateGlossary(selected.id, g => ({ ...g, course: course.trim() }));
+  };
+
+  const deleteCourse = () => {
+    if (!selected || !window.confirm(`ลบอภิธานศัพท์ "${selected.course}" หรือไม่?`)) return;
+    const remaining = glossaries.filter(g => g.id !== selected.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    if (activeId === selected.id) onSelect(null);
+  };
+
+  const addTerm = () => {
+    if (!selected) return;
+    updateGlossary(selected.id, g => ({ ...g, terms: [...g.terms, { id: createGlossaryId(), text: {}, note: '' }] }));
+  };
+
+  const deleteTerm = (termId: string) => {
+    if (!selected) return;
+    updateGlossary(selected.id, g => ({ ...g, terms: g.terms.filter(t => t.id !== termId) }));
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    try {
+      const text = await readFileAsText(file);
+      if (/\.(tbx|xml)$/i.test(file.name)) {
+        const imported = tbxToGlossary(text, file.name.replace(/\.[^.]+$/, ''));
+        onChange([...glossaries, imported]);
+        setSelectedId(imported.id);
+      } else {
+        const terms = csvToTerms(text);
+        if (selected) {
+          updateGlossary(selected.id, g => ({ ...g, terms: [...g.terms, ...terms] }));
+        } else {
+          const imported = createGlossary(file.name.replace(/\.[^.]+$/, ''), terms);
+          onChange([...glossaries, imported]);
+          setSelectedId(imported.id);
+        }
+      }
+    } catch (err: any) {
+      console.error('Glossary import failed:', err);
+      setError(`นำเข้าไฟล์ไม่สำเร็จ: ${err.message || 'Unknown'}`);
+    }
+  };
+
+  const exportCsv = () => {
+    if (selected) downloadFile(glossaryToCsv(selected.terms), `${safeFilename(selected.course)}_glossary.csv`, 'text/csv');
+  };
+
+  const exportTbx = () => {
+    if (selected) downloadFile(glossaryToTbx(selected), `${safeFilename(selected.course)}_glossary.tbx`, 'application/x-tbx+xml');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-book"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Course Glossary</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">
+                {isRecording ? 'Changes apply from the next session' : 'Injected into the translator at session start'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-[220px_1fr] overflow-hidden">
+          <div className="border-r border-slate-100 dark:border-slate-800 p-4 flex flex-col gap-2 overflow-y-auto">
+            {glossaries.map(g => (
+              <button
+                key={g.id}
+                onClick={() => setSelectedId(g.id)}
+                className={`text-left px-4 py-3 rounded-2xl text-sm font-bold transition-all ${g.id === selectedId ? 'bg-slate-100 dark:bg-slate-800 text-slate-900 dark:text-white' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="truncate">{g.course}</span>
+                  {g.id === activeId && <i className="fas fa-circle-check text-green-500 text-xs"></i>}
+                </span>
+                <span className="block text-[10px] font-medium text-slate-400 mt-1">{g.terms.length} terms</span>
+              </button>
+            ))}
+            <button onClick={addCourse} className="mt-2 px-4 py-3 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-xs font-black uppercase tracking-tight text-slate-400 hover:text-slate-600">
+              <i className="fas fa-plus mr-2"></i>New Course
+            </button>
+          </div>
+
+          <div className="flex flex-col overflow-hidden">
+            <div className="px-6 py-4 flex flex-wrap items-center gap-2 border-b border-slate-100 dark:border-slate-800">
+              {selected && (
+                <>
+                  <button
+                    onClick={() => onSelect(selected.id === activeId ? null : selected.id)}
+                    className={`${iconButtonClass} ${selected.id === activeId ? `${accentBg} !text-white border-transparent` : ''}`}
+                  >
+                    <i className="fas fa-bolt"></i>{selected.id === activeId ? 'Active' : 'Use for sessions'}
+                  </button>
+                  <button onClick={renameCourse} className={iconButtonClass}><i className="fas fa-pen"></i>Rename</button>
+                  <button onClick={exportCsv} className={iconButtonClass}><i className="fas fa-file-csv"></i>CSV</button>
+                  <button onClick={exportTbx} className={iconButtonClass}><i className="fas fa-file-code"></i>TBX</button>
+                  <button onClick={deleteCourse} className={`${iconButtonClass} !text-red-500`}><i className="fas fa-trash-alt"></i></button>
+                </>
+              )}
+              <button onClick={() => fileInputRef.current?.click()} className={`${iconButtonClass} ml-auto`}><i className="fas fa-file-import"></i>Import CSV / TBX</button>
+              <input ref={fileInputRef} type="file" accept=".csv,.tbx,.xml,text/csv" className="hidden" onChange={importFile} />
+            </div>
+            {error && <p className="px-6 py-2 text-xs font-bold text-red-500">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto p-6">
+              {!selected ? (
+                <p className="text-center text-sm font-bold text-slate-400 py-16">Create a course glossary or import a CSV / TBX file to begin.</p>
+              ) : (
+                <table className="w-full text-left border-separate border-spacing-y-2">
+                  <thead>
+                    <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      {columns.map(lang => <th key={lang} className="px-1">{languageName(lang)}</th>)}
+                      <th className="px-1">Note</th><th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.terms.map(term => (
+                      <tr key={term.id}>
+                        {columns.map(lang => (
+                          <td key={lang} className="px-1"><input className={inputClass} value={term.text[lang] ?? ''} onChange={e => updateTerm(term.id, lang, e.target.value)} placeholder={TERM_PLACEHOLDERS[lang] ?? ''} /></td>
+                        ))}
+                        <td className="px-1"><input className={inputClass} value={term.note ?? ''} onChange={e => updateNote(term.id, e.target.value)} /></td>
+                        <td className="px-1 w-10">
+                          <button onClick={() => deleteTerm(term.id)} className="w-9 h-9 rounded-xl text-red-400 hover:bg-red-50 dark:hover:bg-red-950/20"><i className="fas fa-times"></i></button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {selected && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <button onClick={addTerm} className="px-4 py-2.5 rounded-xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-xs font-black uppercase tracking-tight text-slate-400 hover:text-slate-600">
+                    <i className="fas fa-plus mr-2"></i>Add Term
+                  </button>
+                  {addable.length > 0 && (
+                    <select
+                      value=""
+                      onChange={e => e.target.value && setAddedLanguages(langs => [...langs, e.target.value])}
+                      className="px-3 py-2.5 rounded-xl bg-transparent border border-slate-200 dark:border-slate-700 text-xs font-black uppercase tracking-tight text-slate-400 focus:outline-none"
+                    >
+                      <option value="">+ Language column</option>
+                      {addable.map(lang => <option key={lang} value={lang}>{languageName(lang)}</option>)}
+                    </select>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
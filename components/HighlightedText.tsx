@@ -0,0 +1,46 @@
+import React from 'react';
+
+export interface Highlight {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: Highlight[];
+}
+
+/**
+ * Combines highlight layers; ranges from earlier layers win where they overlap later ones.
+ */
+export function mergeHighlights(...layers: Highlight[][]): Highlight[] {
+  const merged: Highlight[] = [];
+  layers.forEach(layer => layer.forEach(h => {
+    if (!merged.some(m => h.start < m.end && m.start < h.end)) merged.push(h);
+  }));
+  return merged;
+}
+
+/**
+ * Renders `text` with non-overlapping character ranges wrapped in <mark>.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights }) => {
+  if (highlights.length === 0) return <>{text}</>;
+  const sorted = [...highlights].sort((a, b) => a.start - b.start);
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  sorted.forEach((h, i) => {
+    if (h.start < cursor) return;
+    if (h.start > cursor) parts.push(text.slice(cursor, h.start));
+    parts.push(
+      <mark key={i} className={h.className} title={h.title}>{text.slice(h.start, h.end)}</mark>
+    );
+    cursor = h.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
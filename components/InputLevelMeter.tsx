@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import { readLevelDb } from '../services/inputDeviceService';
+
+interface InputLevelMeterProps {
+  analyser: AnalyserNode | null;
+}
+
+const FLOOR_DB = -60;
+// Peak marker falls back this many dB per frame
+const PEAK_DECAY_DB = 0.5;
+
+const toPercent = (db: number) => Math.max(0, Math.min(1, (db - FLOOR_DB) / -FLOOR_DB)) * 100;
+
+/**
+ * Horizontal level meter. Updates the DOM directly every animation frame so the meter
+ * does not re-render React.
+ */
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ analyser }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const peakRef = useRef<HTMLDivElement>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!analyser) return;
+    const buffer = new Float32Array(analyser.fftSize);
+    let peak = -100;
+    let frame: number;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const level = readLevelDb(analyser, buffer);
+      peak = Math.max(level, peak - PEAK_DECAY_DB);
+      if (barRef.current) barRef.current.style.width = `${toPercent(level)}%`;
+      if (peakRef.current) peakRef.current.style.left = `${toPercent(peak)}%`;
+      if (labelRef.current) labelRef.current.textContent = level <= FLOOR_DB ? '—' : `${Math.round(level)} dB`;
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="relative flex-1 h-3 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+        <div className="absolute inset-0 opacity-20 bg-gradient-to-r from-green-500 via-green-500 via-70% to-red-500"></div>
+        <div ref={barRef} className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-500 via-green-400 to-amber-400" style={{ width: 0 }}></div>
+        <div ref={peakRef} className="absolute inset-y-0 w-0.5 bg-slate-700 dark:bg-white" style={{ left: 0 }}></div>
+      </div>
+      <span ref={labelRef} className="w-14 text-right text-[11px] font-black tabular-nums text-slate-500">—</span>
+    </div>
+  );
+};
+
+export default InputLevelMeter;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import InputLevelMeter from './InputLevelMeter';
+import { InputLayout, InputSettings, listInputDevices, openInputs } from '../services/inputDeviceService';
+
+interface InputPanelProps {
+  settings: InputSettings;
+  /** The running session's analysers, one per channel; without them the panel opens its own preview. */
+  analysers: AnalyserNode[];
+  isRecording: boolean;
+  accentBg: string;
+  onChange: (settings: InputSettings) => void;
+  onClose: () => void;
+}
+
+const PROCESSING: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string; hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Removes the translation played from this computer. Turn off for mics with their own echo control.' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters fans and hum. Can clip quiet speech on lavalier mics.' },
+  { key: 'autoGainControl', label: 'Automatic gain', hint: 'Levels the volume. Turn off when the mixer or interface already sets the gain.' }
+];
+
+const LAYOUTS: { layout: InputLayout; label: string; hint: string }[] = [
+  { layout: 'single', label: 'One mic', hint: 'The speaker comes from the role buttons or language detection.' },
+  { layout: 'twoDevices', label: 'Two mics', hint: 'The professor and the students each have their own microphone; every turn is tagged with the mic it came from.' },
+  { layout: 'stereo', label: 'Stereo', hint: 'One two-channel interface with the professor on one input and the student mic on the other.' }
+];
+
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+
+const InputPanel: React.FC<InputPanelProps> = ({ settings, analysers, isRecording, accentBg, onChange, onClose }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [preview, setPreview] = useState<AnalyserNode[]>([]);
+  const [previewError, setPreviewError] = useState('');
+
+  useEffect(() => {
+    const refresh = () => listInputDevices().then(setDevices).catch(err => console.error('Failed to list inputs:', err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  // Outside a session, open the selected mics just for the meters
+  useEffect(() => {
+    if (isRecording) return;
+    let cancelled = false;
+    let release = () => {};
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    setPreviewError('');
+    openInputs(ctx, settings).then(inputs => {
+      if (cancelled) { inputs.close(); return; }
+      setPreview(inputs.channels.map(channel => {
+        const node = ctx.createAnalyser();
+        node.fftSize = 2048;
+        channel.node.connect(node);
+        return node;
+      }));
+      // Labels are only exposed once permission has been granted
+      listInputDevices().then(setDevices).catch(() => {});
+      release = () => inputs.close();
+    }).catch(err => {
+      console.error('Microphone preview failed:', err);
+      if (!cancelled) setPreviewError(`ไม่สามารถเปิดไมโครโฟนได้: ${err.message || err.name}`);
+    });
+    return () => {
+      cancelled = true;
+      release();
+      ctx.close().catch(() => {});
+      setPreview([]);
+    };
+  }, [isRecording, settings]);
+
+  const update = (patch: Partial<InputSettings>) => onChange({ ...settings, ...patch });
+  const isMissing = (deviceId: string) => deviceId !== '' && devices.length > 0 && !devices.some(d => d.deviceId === deviceId);
+  const meters = isRecording ? analysers : preview;
+  const dual = settings.layout !== 'single';
+
+  const segment = (active: boolean) => `flex-1 px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all disabled:opacity-50 ${
+    active ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+  }`;
+
+  const deviceSelect = (value: string, onSelect: (deviceId: string) => void, defaultLabel: string) => (
+    <>
+      <select
+        value={isMissing(value) ? '' : value}
+        onChange={e => onSelect(e.target.value)}
+        className="w-full bg-white dark:bg-slate-800 px-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-700 dark:text-slate-200 focus:outline-none"
+      >
+        <option value="">{defaultLabel}</option>
+        {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>)}
+      </select>
+      {isMissing(value) && <p className="text-xs font-bold text-amber-500 mt-2">{dual ? 'This microphone is not connected.' : 'The saved microphone is not connected; using the system default until it is plugged in again.'}</p>}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-microphone"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Microphone</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">{isRecording ? 'Live session input' : 'Preview'}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-7">
+          <section>
+            <p className={sectionTitleClass}>Speakers</p>
+            <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+              {LAYOUTS.map(({ layout, label }) => (
+                <button key={layout} disabled={isRecording} onClick={() => update({ layout })} className={segment(settings.layout === layout)}>{label}</button>
+              ))}
+            </div>
+            <p className="text-xs font-bold text-slate-400 mt-2">
+              {LAYOUTS.find(l => l.layout === settings.layout)?.hint}{isRecording && ' Stop the session to change this.'}
+            </p>
+          </section>
+
+          {settings.layout === 'single' && (
+            <section>
+              <p className={sectionTitleClass}>Input device</p>
+              {deviceSelect(settings.deviceId, deviceId => update({ deviceId }), 'System default')}
+            </section>
+          )}
+
+          {settings.layout === 'twoDevices' && (
+            <>
+              <section>
+                <p className={sectionTitleClass}>Professor microphone</p>
+                {deviceSelect(settings.deviceId, deviceId => update({ deviceId }), 'Choose a microphone')}
+              </section>
+              <section>
+                <p className={sectionTitleClass}>Student microphone</p>
+                {deviceSelect(settings.studentDeviceId, studentDeviceId => update({ studentDeviceId }), 'Choose a microphone')}
+              </section>
+            </>
+          )}
+
+          {settings.layout === 'stereo' && (
+            <section>
+              <p className={sectionTitleClass}>Audio interface</p>
+              {deviceSelect(settings.deviceId, deviceId => update({ deviceId }), 'System default')}
+              <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner mt-3">
+                {([0, 1] as const).map(channel => (
+                  <button key={channel} onClick={() => update({ professorChannel: channel })} className={segment(settings.professorChannel === channel)}>
+                    Professor on {channel === 0 ? 'left' : 'right'}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <p className={sectionTitleClass}>Level</p>
+            {meters.length > 1
+              ? meters.map((meter, i) => (
+                <div key={i}>
+                  <p className="text-xs font-black text-slate-500 mb-1">{i === 0 ? 'Professor' : 'Student'}</p>
+                  <InputLevelMeter analyser={meter} />
+                </div>
+              ))
+              : <InputLevelMeter analyser={meters[0] ?? null} />}
+            {previewError && <p className="text-xs font-bold text-red-500 mt-2">{previewError}</p>}
+          </section>
+
+          <section className={settings.layout === 'stereo' ? 'space-y-4 opacity-40 pointer-events-none' : 'space-y-4'}>
+            <p className={sectionTitleClass}>Browser processing{settings.layout === 'stereo' && ' (off for two-channel interfaces)'}</p>
+            {PROCESSING.map(({ key, label, hint }) => (
+              <label key={key} className="flex items-center justify-between gap-4 cursor-pointer select-none">
+                <span>
+                  <span className="block text-sm font-black text-slate-800 dark:text-slate-100">{label}</span>
+                  <span className="block text-xs font-bold text-slate-400 mt-0.5">{hint}</span>
+                </span>
+                <input type="checkbox" className="w-5 h-5 shrink-0" checked={settings[key]} onChange={e => update({ [key]: e.target.checked })} />
+              </label>
+            ))}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputPanel;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { defaultRelayUrl, normalizeRoomCode } from '../services/broadcastService';
+
+interface JoinRoomProps {
+  initialRelay?: string;
+}
+
+const inputClass = 'w-full bg-slate-800 px-4 py-3 rounded-2xl border border-slate-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500/40';
+
+/** Landing page for student devices that did not scan the QR code. */
+const JoinRoom: React.FC<JoinRoomProps> = ({ initialRelay }) => {
+  const [room, setRoom] = useState('');
+  const [relay, setRelay] = useState(initialRelay || defaultRelayUrl());
+  const [showRelay, setShowRelay] = useState(false);
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeRoomCode(room);
+    if (code.length < 4) return;
+    window.location.search = `?view=captions&room=${code}&relay=${encodeURIComponent(relay.trim())}`;
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0B0F1A] p-6 font-sans">
+      <form onSubmit={join} className="w-full max-w-sm bg-[#111827] rounded-[2.5rem] p-8 shadow-2xl border border-slate-800 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="w-11 h-11 rounded-2xl bg-blue-800 flex items-center justify-center text-white shadow-xl"><i className="fas fa-tower-broadcast"></i></div>
+          <div>
+            <h1 className="text-lg font-black text-white leading-none">Join live captions</h1>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-1.5">เข้าร่วมคำบรรยายสด · 加入实时字幕</p>
+          </div>
+        </div>
+        <input
+          className={`${inputClass} text-center text-3xl font-black tracking-[0.3em] uppercase`}
+          value={room}
+          onChange={e => setRoom(normalizeRoomCode(e.target.value))}
+          placeholder="ROOM"
+          maxLength={12}
+          autoFocus
+          autoComplete="off"
+        />
+        {showRelay ? (
+          <input className={`${inputClass} text-sm`} value={relay} onChange={e => setRelay(e.target.value)} placeholder="ws://192.168.1.10:8787" />
+        ) : (
+          <button type="button" onClick={() => setShowRelay(true)} className="text-[11px] font-bold text-slate-500 hover:text-slate-300">
+            <i className="fas fa-gear mr-1"></i> Relay: {relay}
+          </button>
+        )}
+        <button type="submit" disabled={normalizeRoomCode(room).length < 4} className="w-full py-4 rounded-2xl bg-blue-800 text-white text-sm font-black uppercase tracking-widest shadow-xl disabled:opacity-40">
+          Join
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default JoinRoom;
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { DecodedMedia, decodeMediaFile, DEFAULT_MEDIA_SPEED, formatMediaTime, MEDIA_ACCEPT, MEDIA_SPEEDS } from '../services/mediaImportService';
+
+interface MediaImportDialogProps {
+  accentBg: string;
+  onStart: (media: DecodedMedia, speed: number) => void;
+  onClose: () => void;
+}
+
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+
+const MediaImportDialog: React.FC<MediaImportDialogProps> = ({ accentBg, onStart, onClose }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [media, setMedia] = useState<DecodedMedia | null>(null);
+  const [speed, setSpeed] = useState(DEFAULT_MEDIA_SPEED);
+  const [decoding, setDecoding] = useState(false);
+  const [error, setError] = useState('');
+
+  const chooseFile = async (file: File) => {
+    setMedia(null);
+    setError('');
+    setDecoding(true);
+    try {
+      setMedia(await decodeMediaFile(file));
+    } catch (err: any) {
+      console.error('Media decode failed:', err);
+      setError(`ไม่สามารถอ่านไฟล์เสียงหรือวิดีโอนี้ได้: ${err.message || err.name || 'Unknown'}`);
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  const segment = (active: boolean) => `flex-1 px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all ${
+    active ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-file-audio"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Translate a Recording</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">Audio or video file</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-7">
+          <section>
+            <p className={sectionTitleClass}>File</p>
+            <input ref={fileRef} type="file" accept={MEDIA_ACCEPT} className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) chooseFile(file); e.target.value = ''; }} />
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={decoding}
+              className="w-full px-4 py-6 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-500 hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-50"
+            >
+              {decoding ? (
+                <><i className="fas fa-circle-notch animate-spin mr-2"></i>Decoding…</>
+              ) : media ? (
+                <span className="flex flex-col gap-1">
+                  <span className="text-slate-800 dark:text-slate-100 font-black truncate">{media.name}</span>
+                  <span className="text-xs">{formatMediaTime(media.durationMs)} · choose another file</span>
+                </span>
+              ) : (
+                <><i className="fas fa-upload mr-2"></i>Choose an audio or video file</>
+              )}
+            </button>
+            {error && <p className="text-xs font-bold text-red-500 mt-2">{error}</p>}
+          </section>
+
+          <section>
+            <p className={sectionTitleClass}>Speech speed</p>
+            <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+              {MEDIA_SPEEDS.map(s => (
+                <button key={s} onClick={() => setSpeed(s)} className={segment(speed === s)}>{s}×</button>
+              ))}
+            </div>
+            <p className="text-xs font-bold text-slate-400 mt-2">
+              Speech is sent this much faster than real time and silences are skipped. Use 1× if names or numbers come out wrong.
+            </p>
+          </section>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Cancel</button>
+          <button
+            onClick={() => media && onStart(media, speed)}
+            disabled={!media}
+            className={`px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest text-white ${accentBg} disabled:opacity-50 shadow-lg`}
+          >
+            <i className="fas fa-play mr-2"></i>Translate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaImportDialog;
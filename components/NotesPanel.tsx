@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { BilingualText, GlossaryTerm, LanguagePair, LectureNotes, LectureSession, NoteTerm, TranscriptEntry } from '../types';
+import { createNotesGenerator, NOTE_SECTIONS, notesToMarkdown } from '../services/notesService';
+import { getLanguagePair, LANGUAGES } from '../services/languageService';
+import { downloadFile, safeFilename } from '../services/fileService';
+
+interface NotesPanelProps {
+  session: Omit<LectureSession, 'entries'> | null;
+  entries: TranscriptEntry[];
+  /** Pair new notes are drafted in; existing notes keep the pair they were written in. */
+  pair: LanguagePair;
+  glossary: GlossaryTerm[];
+  accentBg: string;
+  isRecording: boolean;
+  onChange: (notes: LectureNotes) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-transparent px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30 resize-y';
+const iconButtonClass = 'p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-lg transition-all active:scale-95 text-xs font-black uppercase tracking-tight flex items-center gap-2 disabled:opacity-40';
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2';
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ session, entries, pair, glossary, accentBg, isRecording, onChange, onClose }) => {
+  const generator = useMemo(() => createNotesGenerator(), []);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const notes = session?.notes ?? null;
+  const notesPair = notes ? getLanguagePair(notes.pairId) : pair;
+  const lecturerLabel = LANGUAGES[notesPair.lecturer].nativeName;
+  const studentsLabel = LANGUAGES[notesPair.students].nativeName;
+
+  const generate = async () => {
+    if (notes && !window.confirm('สร้างบันทึกใหม่จะเขียนทับการแก้ไขเดิม ต้องการดำเนินการต่อหรือไม่?')) return;
+    setGenerating(true);
+    setError('');
+    try {
+      onChange(await generator.generate({ session, entries, pair, glossary }));
+    } catch (err: any) {
+      console.error('Notes generation failed:', err);
+      setError(`สร้างบันทึกไม่สำเร็จ: ${err.message || 'Unknown'}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const update = (patch: Partial<LectureNotes>) => {
+    if (notes) onChange({ ...notes, ...patch });
+  };
+
+  const updatePoint = (key: typeof NOTE_SECTIONS[number]['key'], index: number, patch: Partial<BilingualText>) => {
+    if (notes) update({ [key]: notes[key].map((p, i) => i === index ? { ...p, ...patch } : p) });
+  };
+
+  const updateTerm = (index: number, patch: Partial<NoteTerm>) => {
+    if (notes) update({ keyTerms: notes.keyTerms.map((t, i) => i === index ? { ...t, ...patch } : t) });
+  };
+
+  const removeButton = (onClick: () => void) => (
+    <button onClick={onClick} className="w-8 h-8 shrink-0 rounded-xl text-red-400 hover:bg-red-50 dark:hover:bg-red-950/20" title="Remove"><i className="fas fa-times text-xs"></i></button>
+  );
+
+  const addButton = (onClick: () => void) => (
+    <button onClick={onClick} className="text-[11px] font-black uppercase text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"><i className="fas fa-plus mr-1"></i> Add</button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className={`w-11 h-11 shrink-0 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-note-sticky"></i></div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-black dark:text-white leading-none truncate">Lecture Notes</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2 truncate">
+                {notes ? `${notes.generator} · ${new Date(notes.generatedAt).toLocaleString()}` : session?.name || 'No session'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={generate} disabled={generating || isRecording || entries.length === 0} className={iconButtonClass} title={isRecording ? 'Stop the session first' : `Draft with ${generator.name}`}>
+              <i className={`fas ${generating ? 'fa-spinner animate-spin' : 'fa-wand-magic-sparkles'}`}></i> {notes ? 'Regenerate' : 'Generate notes'}
+            </button>
+            <button onClick={() => notes && downloadFile(notesToMarkdown(notes, session), `${safeFilename(session?.name || 'LiveTrans_Session')}_notes.md`, 'text/markdown')} disabled={!notes} className={iconButtonClass} title="Download Markdown">
+              <i className="fas fa-download"></i>
+            </button>
+            <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        {error && <p className="mx-8 mt-4 text-xs font-bold text-red-500 bg-red-50 dark:bg-red-950/20 rounded-xl px-4 py-3">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {!notes && (
+            <div className="text-center py-16 text-slate-400">
+              <i className="fas fa-note-sticky text-4xl mb-4 opacity-40"></i>
+              <p className="text-sm font-bold">{entries.length === 0 ? 'No transcript to summarize yet' : 'Generate a bilingual summary, methodology points, readings, questions and key terms from this lecture.'}</p>
+            </div>
+          )}
+
+          {notes && (
+            <>
+              <section>
+                <p className={sectionTitleClass}>Summary</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <textarea className={inputClass} rows={4} value={notes.summary.lecturer} onChange={e => update({ summary: { ...notes.summary, lecturer: e.target.value } })} placeholder={lecturerLabel} />
+                  <textarea className={inputClass} rows={4} value={notes.summary.students} onChange={e => update({ summary: { ...notes.summary, students: e.target.value } })} placeholder={studentsLabel} />
+                </div>
+              </section>
+
+              {NOTE_SECTIONS.map(({ key, title }) => (
+                <section key={key}>
+                  <p className={sectionTitleClass}>{title}</p>
+                  <div className="space-y-2">
+                    {notes[key].map((point, i) => (
+                      <div key={i} className="flex gap-2 items-start">
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                          <textarea className={inputClass} rows={2} value={point.lecturer} onChange={e => updatePoint(key, i, { lecturer: e.target.value })} placeholder={lecturerLabel} />
+                          <textarea className={inputClass} rows={2} value={point.students} onChange={e => updatePoint(key, i, { students: e.target.value })} placeholder={studentsLabel} />
+                        </div>
+                        {removeButton(() => update({ [key]: notes[key].filter((_, j) => j !== i) }))}
+                      </div>
+                    ))}
+                    {addButton(() => update({ [key]: [...notes[key], { lecturer: '', students: '' }] }))}
+                  </div>
+                </section>
+              ))}
+
+              <section>
+                <p className={sectionTitleClass}>Readings</p>
+                <div className="space-y-2">
+                  {notes.readings.map((reading, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <input className={inputClass} value={reading} onChange={e => update({ readings: notes.readings.map((r, j) => j === i ? e.target.value : r) })} placeholder="Author (Year), Title" />
+                      {removeButton(() => update({ readings: notes.readings.filter((_, j) => j !== i) }))}
+                    </div>
+                  ))}
+                  {addButton(() => update({ readings: [...notes.readings, ''] }))}
+                </div>
+              </section>
+
+              <section>
+                <p className={sectionTitleClass}>Key terms</p>
+                <div className="space-y-2">
+                  {notes.keyTerms.map((term, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <div className="flex-1 grid grid-cols-3 gap-2">
+                        <input className={inputClass} value={term.lecturer} onChange={e => updateTerm(i, { lecturer: e.target.value })} placeholder={lecturerLabel} />
+                        <input className={inputClass} value={term.students} onChange={e => updateTerm(i, { students: e.target.value })} placeholder={studentsLabel} />
+                        <input className={inputClass} value={term.hint} onChange={e => updateTerm(i, { hint: e.target.value })} placeholder="[ brief explanation ]" />
+                      </div>
+                      {removeButton(() => update({ keyTerms: notes.keyTerms.filter((_, j) => j !== i) }))}
+                    </div>
+                  ))}
+                  {addButton(() => update({ keyTerms: [...notes.keyTerms, { lecturer: '', students: '', hint: '' }] }))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { listOutputDevices, MicPolicy, PlaybackSettings, RATE_STEPS, supportsOutputSelection, VOLUME_MAX } from '../services/playbackService';
+
+interface PlaybackPanelProps {
+  settings: PlaybackSettings;
+  accentBg: string;
+  onChange: (settings: PlaybackSettings) => void;
+  onClose: () => void;
+}
+
+const MIC_POLICIES: { policy: MicPolicy; label: string; hint: string }[] = [
+  { policy: 'open', label: 'Open', hint: 'Headset or separate speakers; the mic is never touched' },
+  { policy: 'duck', label: 'Duck', hint: 'Mic is turned down while the translation plays' },
+  { policy: 'suppress', label: 'Mute', hint: 'Mic is muted while the translation plays' }
+];
+
+const sectionTitleClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+
+const PlaybackPanel: React.FC<PlaybackPanelProps> = ({ settings, accentBg, onChange, onClose }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const canRoute = supportsOutputSelection();
+
+  useEffect(() => {
+    if (!canRoute) return;
+    const refresh = () => listOutputDevices().then(setDevices).catch(err => console.error('Failed to list outputs:', err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [canRoute]);
+
+  const update = (patch: Partial<PlaybackSettings>) => onChange({ ...settings, ...patch });
+  const missingDevice = settings.sinkId !== '' && devices.length > 0 && !devices.some(d => d.deviceId === settings.sinkId);
+
+  const segment = (active: boolean) => `flex-1 px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all ${
+    active ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-volume-high"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Translation Audio</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">Changes apply immediately</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-7">
+          <label className="flex items-center justify-between gap-4 cursor-pointer select-none">
+            <span>
+              <span className="block text-sm font-black text-slate-800 dark:text-slate-100">Captions only</span>
+              <span className="block text-xs font-bold text-slate-400 mt-0.5">Never play translated speech; text still appears live</span>
+            </span>
+            <input type="checkbox" className="w-5 h-5" checked={settings.captionsOnly} onChange={e => update({ captionsOnly: e.target.checked })} />
+          </label>
+
+          <div className={settings.captionsOnly ? 'opacity-40 pointer-events-none space-y-7' : 'space-y-7'}>
+            <section>
+              <p className={sectionTitleClass}>Volume</p>
+              <div className="flex items-center gap-4">
+                <button onClick={() => update({ muted: !settings.muted })} className={`w-10 h-10 shrink-0 rounded-xl border ${settings.muted ? 'bg-red-500 text-white border-red-500' : 'border-slate-200 dark:border-slate-700 text-slate-500'}`} title={settings.muted ? 'Unmute' : 'Mute'}>
+                  <i className={`fas ${settings.muted ? 'fa-volume-xmark' : 'fa-volume-high'}`}></i>
+                </button>
+                <input type="range" className="flex-1" min={0} max={VOLUME_MAX} step={0.05} value={settings.volume} onChange={e => update({ volume: Number(e.target.value), muted: false })} />
+                <span className="w-12 text-right text-xs font-black text-slate-600 dark:text-slate-300 tabular-nums">{Math.round(settings.volume * 100)}%</span>
+              </div>
+            </section>
+
+            <section>
+              <p className={sectionTitleClass}>Speed</p>
+              <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+                {RATE_STEPS.map(rate => (
+                  <button key={rate} onClick={() => update({ rate })} className={segment(settings.rate === rate)}>{rate}×</button>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <p className={sectionTitleClass}>Output device</p>
+              {canRoute ? (
+                <>
+                  <select
+                    value={missingDevice ? '' : settings.sinkId}
+                    onChange={e => update({ sinkId: e.target.value })}
+                    className="w-full bg-white dark:bg-slate-800 px-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-700 dark:text-slate-200 focus:outline-none"
+                  >
+                    <option value="">System default</option>
+                    {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Output ${i + 1}`}</option>)}
+                  </select>
+                  {missingDevice && <p className="text-xs font-bold text-amber-500 mt-2">The saved device is not connected; using the system default.</p>}
+                  {devices.length > 0 && devices.every(d => !d.label) && <p className="text-xs font-bold text-slate-400 mt-2">Device names appear once microphone access has been granted.</p>}
+                </>
+              ) : (
+                <p className="text-xs font-bold text-slate-400">This browser plays through the system default output only.</p>
+              )}
+            </section>
+
+            <section>
+              <p className={sectionTitleClass}>Microphone while translation plays</p>
+              <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+                {MIC_POLICIES.map(({ policy, label, hint }) => (
+                  <button key={policy} onClick={() => update({ micPolicy: policy })} className={segment(settings.micPolicy === policy)} title={hint}>{label}</button>
+                ))}
+              </div>
+              <p className="text-xs font-bold text-slate-400 mt-2">{MIC_POLICIES.find(p => p.policy === settings.micPolicy)?.hint}. Prevents the laptop speakers from feeding the translation back into the microphone.</p>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackPanel;
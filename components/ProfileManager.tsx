@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { AcademicLevel } from '../types';
+import { ACADEMIC_LEVELS } from '../constants';
+import { getLanguagePair, LANGUAGE_PAIRS, LANGUAGES } from '../services/languageService';
+import { InstructionProfiles, isEditedProfile, resetProfile, resolveInstruction, setProfileInstruction } from '../services/profileService';
+
+interface ProfileManagerProps {
+  profiles: InstructionProfiles;
+  activePairId: string;
+  activeLevel: AcademicLevel;
+  accentBg: string;
+  isRecording: boolean;
+  onChange: (profiles: InstructionProfiles) => void;
+  onActivate: (pairId: string, level: AcademicLevel) => void;
+  onClose: () => void;
+}
+
+const iconButtonClass = 'p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-lg transition-all active:scale-95 text-xs font-black uppercase tracking-tight flex items-center gap-2 disabled:opacity-40';
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ profiles, activePairId, activeLevel, accentBg, isRecording, onChange, onActivate, onClose }) => {
+  const [pairId, setPairId] = useState(activePairId);
+  const [level, setLevel] = useState<AcademicLevel>(activeLevel);
+
+  const pair = getLanguagePair(pairId);
+  const edited = isEditedProfile(profiles, pair, level);
+  const isActive = pair.id === activePairId && level === activeLevel;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-language"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Languages &amp; Instructions</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">
+                {isRecording ? 'Changes apply from the next session' : 'One translator instruction per language pair and academic level'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-[220px_1fr] overflow-hidden">
+          <div className="border-r border-slate-100 dark:border-slate-800 p-4 flex flex-col gap-2 overflow-y-auto">
+            {LANGUAGE_PAIRS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setPairId(p.id)}
+                className={`text-left px-4 py-3 rounded-2xl transition-all ${p.id === pairId ? 'bg-slate-100 dark:bg-slate-800' : 'hover:bg-slate-50 dark:hover:bg-slate-800/40'}`}
+              >
+                <p className="text-sm font-black text-slate-800 dark:text-slate-100">{LANGUAGES[p.lecturer].name} ⇄ {LANGUAGES[p.students].name}</p>
+                <p className="text-[11px] font-bold text-slate-400 mt-0.5">
+                  {LANGUAGES[p.lecturer].nativeName} · {LANGUAGES[p.students].nativeName}
+                  {p.id === activePairId && <span className="ml-2 text-green-500"><i className="fas fa-circle-check"></i></span>}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="p-6 flex flex-col gap-4 overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+                {(Object.keys(ACADEMIC_LEVELS) as AcademicLevel[]).map(l => (
+                  <button
+                    key={l}
+                    onClick={() => setLevel(l)}
+                    className={`px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all ${
+                      level === l ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+                    }`}
+                  >
+                    {ACADEMIC_LEVELS[l].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                {edited && <span className="text-[10px] font-black uppercase text-amber-500 bg-amber-500/10 px-3 py-1 rounded-full">Edited</span>}
+                <button onClick={() => onChange(resetProfile(profiles, pair, level))} disabled={!edited} className={iconButtonClass} title="Restore the built-in instruction">
+                  <i className="fas fa-rotate-left"></i> Reset
+                </button>
+                <button onClick={() => onActivate(pair.id, level)} disabled={isActive || isRecording} className={`px-4 py-2.5 rounded-xl text-xs font-black uppercase tracking-tight text-white ${accentBg} disabled:opacity-40`}>
+                  {isActive ? 'In use' : 'Use for sessions'}
+                </button>
+              </div>
+            </div>
+
+            <textarea
+              className="flex-1 min-h-[320px] w-full bg-slate-50/50 dark:bg-slate-900/40 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 text-xs font-mono leading-relaxed text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30 resize-none"
+              value={resolveInstruction(profiles, pair, level)}
+              onChange={e => onChange(setProfileInstruction(profiles, pair, level, e.target.value))}
+              spellCheck={false}
+            />
+            <p className="text-[11px] font-bold text-slate-400">
+              The active mode (teacher, student or auto-detect) and the course glossary are appended to this instruction when a session starts.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../services/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, className = '' }) => {
+  const matrix = useMemo(() => {
+    try {
+      return encodeQr(value);
+    } catch (err) {
+      console.error('QR encoding failed:', err);
+      return null;
+    }
+  }, [value]);
+
+  if (!matrix) return null;
+
+  const extent = matrix.length + QUIET_ZONE * 2;
+  const path = matrix
+    .flatMap((row, y) => row.map((dark, x) => dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : ''))
+    .join('');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} className={className} shapeRendering="crispEdges" role="img" aria-label={value}>
+      <rect width={extent} height={extent} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
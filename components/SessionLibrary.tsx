@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { LectureSessionSummary } from '../types';
+import { searchSessions } from '../services/sessionStore';
+
+type SessionMeta = Pick<LectureSessionSummary, 'name' | 'course' | 'participants'>;
+
+interface SessionLibraryProps {
+  sessions: LectureSessionSummary[];
+  currentId: string | null;
+  accentBg: string;
+  isRecording: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, meta: SessionMeta) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-white dark:bg-slate-900 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+
+const formatDate = (time: number) => new Date(time).toLocaleString([], { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({ sessions, currentId, accentBg, isRecording, onSelect, onUpdate, onDelete, onNew, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<LectureSessionSummary[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SessionMeta>({ name: '', course: '', participants: '' });
+
+  useEffect(() => {
+    if (!query.trim()) { setResults(null); return; }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchSessions(query).then(found => { if (!cancelled) setResults(found); }).catch(err => console.error('Session search failed:', err));
+    }, 200);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, sessions]);
+
+  const startEditing = (session: LectureSessionSummary) => {
+    setEditingId(session.id);
+    setDraft({ name: session.name, course: session.course, participants: session.participants });
+  };
+
+  const saveEditing = () => {
+    if (editingId && draft.name.trim()) onUpdate(editingId, { ...draft, name: draft.name.trim() });
+    setEditingId(null);
+  };
+
+  const list = results ?? sessions;
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-slate-900/40 backdrop-blur-sm" onClick={onClose}>
+      <aside className="absolute left-0 top-0 bottom-0 w-full max-w-sm bg-white dark:bg-[#111827] shadow-2xl border-r border-slate-100 dark:border-slate-800 flex flex-col animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className={`w-10 h-10 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-layer-group"></i></div>
+            <div>
+              <h2 className="text-base font-black dark:text-white leading-none">Lecture Library</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-1.5">{sessions.length} sessions</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="p-4 flex gap-2">
+          <div className="relative flex-1">
+            <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-xs"></i>
+            <input className={`${inputClass} pl-8`} value={query} onChange={e => setQuery(e.target.value)} placeholder="Search sessions and transcripts" />
+          </div>
+          <button onClick={onNew} disabled={isRecording} title="New empty session" className={`w-10 rounded-xl ${accentBg} text-white disabled:opacity-50`}><i className="fas fa-plus"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-6 space-y-2">
+          {list.length === 0 && <p className="text-center text-sm font-bold text-slate-400 py-12">{query ? 'No matching sessions' : 'No sessions yet'}</p>}
+          {list.map(session => (
+            <div key={session.id} className={`rounded-2xl border p-4 transition-all ${session.id === currentId ? 'border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-800/60' : 'border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/30'}`}>
+              {editingId === session.id ? (
+                <div className="space-y-2">
+                  <input className={inputClass} value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} placeholder="Session name" autoFocus />
+                  <input className={inputClass} value={draft.course} onChange={e => setDraft(d => ({ ...d, course: e.target.value }))} placeholder="Course" />
+                  <input className={inputClass} value={draft.participants} onChange={e => setDraft(d => ({ ...d, participants: e.target.value }))} placeholder="Participants" />
+                  <div className="flex justify-end gap-2 pt-1">
+                    <button onClick={() => setEditingId(null)} className="px-3 py-1.5 rounded-xl text-xs font-black uppercase text-slate-500">Cancel</button>
+                    <button onClick={saveEditing} className={`px-3 py-1.5 rounded-xl text-xs font-black uppercase text-white ${accentBg}`}>Save</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start gap-3">
+                  <button onClick={() => onSelect(session.id)} disabled={isRecording && session.id !== currentId} className="flex-1 text-left min-w-0 disabled:opacity-50">
+                    <p className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{session.name}</p>
+                    {session.course && <p className="text-xs font-bold text-slate-500 truncate mt-0.5">{session.course}</p>}
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1.5">{formatDate(session.startedAt)} · {session.entryCount} turns</p>
+                    {session.participants && <p className="text-[11px] text-slate-400 truncate mt-1"><i className="fas fa-users mr-1"></i>{session.participants}</p>}
+                    {session.mediaFile && <p className="text-[11px] text-slate-400 truncate mt-1"><i className="fas fa-file-audio mr-1"></i>{session.mediaFile}</p>}
+                  </button>
+                  <div className="flex flex-col gap-1">
+                    <button onClick={() => startEditing(session)} title="Rename" className="w-8 h-8 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"><i className="fas fa-pen text-xs"></i></button>
+                    <button
+                      onClick={() => { if (window.confirm(`ลบเซสชัน "${session.name}" หรือไม่?`)) onDelete(session.id); }}
+                      disabled={isRecording && session.id === currentId}
+                      title="Delete"
+                      className="w-8 h-8 rounded-xl text-red-400 hover:bg-red-50 dark:hover:bg-red-950/20 disabled:opacity-30"
+                    >
+                      <i className="fas fa-trash-alt text-xs"></i>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SessionLibrary;
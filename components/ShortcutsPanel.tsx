@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import {
+  bindShortcut,
+  comboFromEvent,
+  DEFAULT_SHORTCUTS,
+  findShortcut,
+  hasClickerShortcuts,
+  RESERVED_COMBOS,
+  setClickerShortcuts,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings
+} from '../services/shortcutService';
+
+interface ShortcutsPanelProps {
+  bindings: ShortcutBindings;
+  accentBg: string;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const kbdClass = 'inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 border-b-2 text-[11px] font-black text-slate-700 dark:text-slate-200';
+
+/** Cheat sheet of the podium shortcuts; each binding can be removed or a new key recorded. */
+const ShortcutsPanel: React.FC<ShortcutsPanelProps> = ({ bindings, accentBg, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (combo === 'Escape') { setCapturing(null); return; }
+      if (RESERVED_COMBOS.includes(combo)) { setNotice(`${combo} is reserved and cannot be assigned.`); return; }
+      const previous = findShortcut(bindings, combo);
+      setNotice(previous && previous !== capturing ? `${combo} was moved from "${SHORTCUT_ACTIONS.find(a => a.action === previous)?.label}".` : '');
+      onChange(bindShortcut(bindings, capturing, combo));
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, bindings, onChange]);
+
+  const unbind = (action: ShortcutAction, combo: string) => onChange({ ...bindings, [action]: bindings[action].filter(c => c !== combo) });
+  const clickerOn = hasClickerShortcuts(bindings);
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className={`w-11 h-11 rounded-2xl ${accentBg} flex items-center justify-center text-white shadow-xl`}><i className="fas fa-keyboard"></i></div>
+            <div>
+              <h2 className="text-lg font-black dark:text-white leading-none">Keyboard Shortcuts</h2>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mt-2">Keyboard and presentation clicker</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500"><i className="fas fa-times"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-5">
+          {SHORTCUT_ACTIONS.map(({ action, label, hint }) => (
+            <div key={action} className="flex items-start justify-between gap-4">
+              <span className="min-w-0">
+                <span className="block text-sm font-black text-slate-800 dark:text-slate-100">{label}</span>
+                <span className="block text-xs font-bold text-slate-400 mt-0.5">{hint}</span>
+              </span>
+              <span className="flex flex-wrap justify-end items-center gap-1.5 shrink-0 max-w-[55%]">
+                {bindings[action].map(combo => (
+                  <kbd key={combo} className={kbdClass}>
+                    {combo}
+                    <button onClick={() => unbind(action, combo)} title="Remove" className="text-slate-400 hover:text-red-500"><i className="fas fa-times text-[9px]"></i></button>
+                  </kbd>
+                ))}
+                <button
+                  onClick={() => { setNotice(''); setCapturing(capturing === action ? null : action); }}
+                  className={`px-2 py-1 rounded-lg text-[11px] font-black transition-all ${capturing === action ? `${accentBg} text-white animate-pulse` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'}`}
+                >
+                  {capturing === action ? 'Press a key…' : <><i className="fas fa-plus mr-1"></i>Key</>}
+                </button>
+              </span>
+            </div>
+          ))}
+          {notice && <p className="text-xs font-bold text-amber-500">{notice}</p>}
+          <p className="text-xs font-bold text-slate-400">
+            Shortcuts are ignored while typing in a text field. Space stays push-to-talk. Clickers usually send PageUp and PageDown, which then no longer scroll the page; press the clicker while recording a key to find out what yours sends.
+          </p>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-3">
+          <button
+            onClick={() => { setNotice(''); onChange(setClickerShortcuts(bindings, !clickerOn)); }}
+            title="PageDown mutes the translation audio, PageUp sets a bookmark"
+            className={`px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest transition-all ${clickerOn ? `${accentBg} text-white` : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+          >
+            <i className="fas fa-person-chalkboard mr-2"></i>{clickerOn ? 'Clicker on' : 'Use clicker'}
+          </button>
+          <button onClick={() => { setNotice(''); onChange(DEFAULT_SHORTCUTS); }} className="px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Reset to defaults</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsPanel;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { LanguagePair, UserRole } from '../types';
+import { languageName } from '../services/languageService';
+
+interface TextComposerProps {
+  pair: LanguagePair;
+  accentBg: string;
+  /** Whether the translation is spoken by default; remembered by the parent. */
+  speak: boolean;
+  sending: boolean;
+  onSpeakChange: (speak: boolean) => void;
+  /** Resolves once the message has been translated and recorded, so the draft can be cleared. */
+  onSend: (text: string, role: UserRole, speak: boolean) => Promise<boolean>;
+}
+
+/**
+ * Typed channel beside the transcript, for students who would rather not speak or are in
+ * a noisy room. Enter sends, Shift+Enter starts a new line.
+ */
+const TextComposer: React.FC<TextComposerProps> = ({ pair, accentBg, speak, sending, onSpeakChange, onSend }) => {
+  const [text, setText] = useState('');
+  const [role, setRole] = useState<UserRole>('Student');
+
+  const send = async () => {
+    const message = text.trim();
+    if (!message || sending) return;
+    if (await onSend(message, role, speak)) setText('');
+  };
+
+  const roleLabel = (r: UserRole) => r === 'Professor' ? `${languageName(pair.lecturer)} Professor` : `${languageName(pair.students)} Student`;
+
+  return (
+    <div className="border-t border-slate-100 dark:border-slate-800 px-6 md:px-10 py-5 bg-white dark:bg-[#111827] space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-inner">
+          {(['Student', 'Professor'] as UserRole[]).map(r => (
+            <button
+              key={r}
+              onClick={() => setRole(r)}
+              className={`px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-tight transition-all ${
+                role === r ? `${accentBg} text-white shadow-lg` : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-300'
+              }`}
+            >
+              {roleLabel(r)}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-[11px] font-black uppercase tracking-tight text-slate-500 cursor-pointer select-none">
+          <input type="checkbox" checked={speak} onChange={e => onSpeakChange(e.target.checked)} />
+          <i className="fas fa-volume-high"></i> Speak translation
+        </label>
+      </div>
+      <div className="flex items-end gap-3">
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) { e.preventDefault(); send(); }
+          }}
+          rows={2}
+          placeholder={`Type a question or comment in ${languageName(pair.students)} or ${languageName(pair.lecturer)}…`}
+          className="flex-1 resize-none bg-slate-50 dark:bg-slate-900/40 px-4 py-3 rounded-2xl border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-800 dark:text-slate-100 focus:outline-none"
+        />
+        <button
+          onClick={send}
+          disabled={!text.trim() || sending}
+          title="Translate and add to the transcript"
+          className={`w-12 h-12 shrink-0 rounded-2xl ${accentBg} text-white shadow-lg disabled:opacity-50 transition-all active:scale-95`}
+        >
+          <i className={`fas ${sending ? 'fa-circle-notch animate-spin' : 'fa-paper-plane'}`}></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TextComposer;
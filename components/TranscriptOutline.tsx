@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { TranscriptEntry } from '../types';
+import { highlightInfo, outlineTitle } from '../services/annotationService';
+
+interface TranscriptOutlineProps {
+  /** Marked entries, in transcript order. */
+  entries: TranscriptEntry[];
+  formatTime: (entry: TranscriptEntry) => string;
+  onJump: (id: string) => void;
+}
+
+/** Collapsible list of bookmarked, starred, highlighted and annotated turns. */
+const TranscriptOutline: React.FC<TranscriptOutlineProps> = ({ entries, formatTime, onJump }) => {
+  const [open, setOpen] = useState(false);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="px-6 md:px-8 py-3 border-b border-slate-100 dark:border-slate-800">
+      <button onClick={() => setOpen(o => !o)} className="flex items-center gap-2 text-[11px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+        <i className={`fas fa-chevron-${open ? 'down' : 'right'} text-[9px]`}></i>
+        <i className="fas fa-bookmark text-rose-500"></i> Outline · {entries.length}
+      </button>
+      {open && (
+        <ul className="mt-3 max-h-56 overflow-y-auto space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <button onClick={() => onJump(entry.id)} className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+                <span className="text-[11px] font-bold text-slate-400 tabular-nums shrink-0 w-14">{formatTime(entry)}</span>
+                <span className="flex items-center gap-1.5 shrink-0 w-12 text-[11px]">
+                  {entry.bookmarked && <i className="fas fa-bookmark text-rose-500"></i>}
+                  {entry.starred && <i className="fas fa-star text-amber-400"></i>}
+                  {entry.highlight && <span className={`w-2.5 h-2.5 rounded-full ${highlightInfo(entry.highlight)?.swatch}`}></span>}
+                </span>
+                <span className={`text-sm font-bold truncate ${entry.annotation?.trim() ? 'italic text-slate-600 dark:text-slate-300' : 'text-slate-700 dark:text-slate-200'}`}>{outlineTitle(entry)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptOutline;
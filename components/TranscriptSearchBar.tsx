@@ -0,0 +1,78 @@
+import React from 'react';
+import { LanguageId, UserRole } from '../types';
+import { EMPTY_FILTERS, hasActiveFilters, TranscriptFilters } from '../services/searchService';
+import { languageName } from '../services/languageService';
+import { MARK_FILTERS, MarkFilter } from '../services/annotationService';
+
+interface TranscriptSearchBarProps {
+  filters: TranscriptFilters;
+  /** Input languages offered in the language filter. */
+  languages: LanguageId[];
+  hitCount: number;
+  activeHit: number;
+  onChange: (filters: TranscriptFilters) => void;
+  onPrev: () => void;
+  onNext: () => void;
+}
+
+const selectClass = 'bg-white dark:bg-slate-800 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 text-[11px] font-bold text-slate-600 dark:text-slate-300 focus:outline-none';
+
+const TranscriptSearchBar: React.FC<TranscriptSearchBarProps> = ({ filters, languages, hitCount, activeHit, onChange, onPrev, onNext }) => {
+  const update = (patch: Partial<TranscriptFilters>) => onChange({ ...filters, ...patch });
+  const searching = filters.query.trim().length > 0;
+
+  return (
+    <div className="px-6 md:px-8 py-4 border-b border-slate-100 dark:border-slate-800 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 text-xs"></i>
+          <input
+            value={filters.query}
+            onChange={e => update({ query: e.target.value })}
+            onKeyDown={e => {
+              if (e.key === 'Enter') { e.preventDefault(); e.shiftKey ? onPrev() : onNext(); }
+              if (e.key === 'Escape') update({ query: '' });
+            }}
+            placeholder="ค้นหา / 搜索 / Search transcript"
+            className="w-full bg-white dark:bg-slate-800 pl-10 pr-4 py-2.5 rounded-2xl border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+          />
+        </div>
+        {searching && (
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="text-[11px] font-black text-slate-500 tabular-nums px-2">{hitCount === 0 ? '0' : `${activeHit + 1} / ${hitCount}`}</span>
+            <button onClick={onPrev} disabled={hitCount === 0} className="w-9 h-9 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30" title="Previous match (Shift+Enter)"><i className="fas fa-chevron-up"></i></button>
+            <button onClick={onNext} disabled={hitCount === 0} className="w-9 h-9 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30" title="Next match (Enter)"><i className="fas fa-chevron-down"></i></button>
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={filters.role} onChange={e => update({ role: e.target.value as UserRole | 'all' })} className={selectClass}>
+          <option value="all">All speakers</option>
+          <option value="Professor">Teacher</option>
+          <option value="Student">Student</option>
+        </select>
+        <select value={filters.sourceLang} onChange={e => update({ sourceLang: e.target.value as LanguageId | 'all' })} className={selectClass}>
+          <option value="all">All languages</option>
+          {languages.map(lang => <option key={lang} value={lang}>Input: {languageName(lang)}</option>)}
+        </select>
+        <select value={filters.mark} onChange={e => update({ mark: e.target.value as MarkFilter })} className={selectClass}>
+          {MARK_FILTERS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <input type="time" value={filters.from} onChange={e => update({ from: e.target.value })} className={selectClass} title="From" />
+        <span className="text-slate-400 text-xs">–</span>
+        <input type="time" value={filters.to} onChange={e => update({ to: e.target.value })} className={selectClass} title="To" />
+        <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500 ml-1 cursor-pointer select-none">
+          <input type="checkbox" checked={filters.matchesOnly} onChange={e => update({ matchesOnly: e.target.checked })} />
+          Matches only
+        </label>
+        {hasActiveFilters(filters) && (
+          <button onClick={() => onChange(EMPTY_FILTERS)} className="ml-auto text-[11px] font-black uppercase text-slate-400 hover:text-slate-600">
+            <i className="fas fa-xmark mr-1"></i>Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptSearchBar;
@@ -1,13 +1,46 @@
+import { AcademicLevel, AccentPalette, AccentTheme, GlossaryTerm, LanguageId, LanguageMode, LanguagePair, UserRole } from './types';
+import { DEFAULT_PAIR_ID, getLanguagePair, LANGUAGES, languageName, pairLanguages } from './services/languageService';
+import { hasLanguages } from './services/glossaryService';
 
-export const SYSTEM_INSTRUCTION = `
-You are an expert academic translator for a Master's degree classroom setting. 
+export const ACADEMIC_LEVELS: Record<AcademicLevel, { label: string; degree: string; context: string }> = {
+  undergraduate: {
+    label: "Bachelor's",
+    degree: "Bachelor's degree",
+    context: "Bachelor's Degree (Undergraduate level). Use standard academic terminology and keep explanations accessible; introduce research concepts plainly."
+  },
+  masters: {
+    label: "Master's",
+    degree: "Master's degree",
+    context: "Master's Degree (Postgraduate level). Terminology should include research methodology, critical analysis, and formal citations."
+  },
+  doctoral: {
+    label: 'Doctoral',
+    degree: 'doctoral (PhD)',
+    context: 'Doctoral Degree (PhD level). Expect advanced theory, epistemology and dense citations; keep terminology precise and never simplify arguments.'
+  }
+};
+
+// English is accepted as a bridge language unless it is one side of the pair
+const withEnglish = (lang: LanguageId, pair: LanguagePair, joiner: string) =>
+  pairLanguages(pair).includes('English') ? languageName(lang) : `${languageName(lang)}${joiner}English`;
+
+/**
+ * Default instruction for a language pair and academic level; the starting point of
+ * every editable instruction profile.
+ */
+export const buildSystemInstruction = (pair: LanguagePair, level: AcademicLevel) => {
+  const lecturer = LANGUAGES[pair.lecturer];
+  const students = LANGUAGES[pair.students];
+  const { degree, context } = ACADEMIC_LEVELS[level];
+  return `
+You are an expert academic translator for a ${degree} classroom setting. 
 Your goal is to provide high-quality, formal, and accurate translation for a specific role in the classroom.
 
-Academic Context: Master's Degree (Postgraduate level). Terminology should include research methodology, critical analysis, and formal citations.
+Academic Context: ${context}
 
 Role-Specific Rules:
-1. TEACHER MODE (Thai Professor): If the speaker speaks Thai or English, translate their speech into high-level, formal Academic Chinese (Simplified). Use terms appropriate for a thesis advisor or lecturer.
-2. STUDENT MODE (Chinese Student): If the speaker speaks Chinese or English, translate their speech into polite, formal Academic Thai. 
+1. TEACHER MODE (${lecturer.name} Professor): If the speaker speaks ${withEnglish(pair.lecturer, pair, ' or ')}, translate their speech into ${students.register}. Use terms appropriate for a thesis advisor or lecturer.
+2. STUDENT MODE (${students.name} Student): If the speaker speaks ${withEnglish(pair.students, pair, ' or ')}, translate their speech into ${lecturer.register}. 
    - SPECIAL FEATURE: If a highly technical academic term is used, provide a very brief explanation or a common synonym in brackets [ ] to assist the student's learning.
 
 General Rules:
@@ -16,12 +49,161 @@ General Rules:
 - You must provide the translation as audio and your output will be transcribed.
 - Be concise but precise.
 `;
+};
+
+export const SYSTEM_INSTRUCTION = buildSystemInstruction(getLanguagePair(DEFAULT_PAIR_ID), 'masters');
+
+/**
+ * Renders the course glossary as a mandatory term list for the system instruction. Only
+ * terms entered in both `languages` are listed; an English form is kept as a reference.
+ */
+export const formatGlossaryInstruction = (terms: GlossaryTerm[] = [], languages: LanguageId[]) => {
+  const entries = terms.filter(t => hasLanguages(t, languages));
+  if (entries.length === 0) return '';
+  const shown = languages.includes('English') ? languages : [...languages, 'English'];
+  const lines = entries.map(t => {
+    const forms = shown.filter(lang => t.text[lang]?.trim()).map(lang => `${languageName(lang)}: ${t.text[lang].trim()}`);
+    const note = t.note ? ` (${t.note})` : '';
+    return `- ${forms.join(' | ')}${note}`;
+  });
+  return `\nCOURSE GLOSSARY (mandatory): Whenever one of these terms is spoken in either language, translate it exactly as listed. Keep author and theory names consistent with this list.\n${lines.join('\n')}`;
+};
 
-export const getRoleInstruction = (role: 'Professor' | 'Student') => {
+/**
+ * The lecture's terminology brief. It goes after the glossary, which stays authoritative
+ * where the two disagree.
+ */
+export const formatContextInstruction = (digest: string = '') => {
+  if (!digest.trim()) return '';
+  return `\nLECTURE CONTEXT (today's topic): The session is about the material below. Use it to recognize names, authors, titles and specialist terms when they are spoken, and to spell and translate them consistently. Never read out or translate the context itself.\n${digest.trim()}`;
+};
+
+export const getRoleInstruction = (role: UserRole, pair: LanguagePair, instruction: string, glossary: GlossaryTerm[] = [], context: string = '') => {
+  const lecturer = LANGUAGES[pair.lecturer];
+  const students = LANGUAGES[pair.students];
   if (role === 'Professor') {
-    return `${SYSTEM_INSTRUCTION}\nCURRENT ACTIVE MODE: TEACHER MODE. Target: Thai/English to formal Chinese Simplified.`;
+    return `${instruction}\nCURRENT ACTIVE MODE: TEACHER MODE. Target: ${withEnglish(pair.lecturer, pair, '/')} to ${students.register}.${formatGlossaryInstruction(glossary, pairLanguages(pair))}${formatContextInstruction(context)}`;
   }
-  return `${SYSTEM_INSTRUCTION}\nCURRENT ACTIVE MODE: STUDENT MODE. Target: Chinese/English to formal Thai with terminology assistance.`;
+  return `${instruction}\nCURRENT ACTIVE MODE: STUDENT MODE. Target: ${withEnglish(pair.students, pair, '/')} to ${lecturer.register} with terminology assistance.${formatGlossaryInstruction(glossary, pairLanguages(pair))}${formatContextInstruction(context)}`;
 };
 
+export const getModeInstruction = (mode: LanguageMode, pair: LanguagePair, instruction: string, glossary: GlossaryTerm[] = [], context: string = '') => {
+  if (mode === 'AUTO') {
+    const lecturer = LANGUAGES[pair.lecturer];
+    const students = LANGUAGES[pair.students];
+    const bridge = pairLanguages(pair).includes('English') ? '' : '\n- If the turn is in English, translate into the language of the other party in the ongoing exchange.';
+    return `${instruction}\nCURRENT ACTIVE MODE: AUTO-DETECT MODE. The floor passes freely between the ${lecturer.name} Professor and ${students.name} Students within this session.
+- Detect the spoken language of every turn independently; never assume it matches the previous turn.
+- If the turn is in ${lecturer.name}, apply TEACHER MODE: translate into ${students.register}.
+- If the turn is in ${students.name}, apply STUDENT MODE: translate into ${lecturer.register} with terminology assistance.${bridge}${formatGlossaryInstruction(glossary, pairLanguages(pair))}${formatContextInstruction(context)}`;
+  }
+  return getRoleInstruction(mode, pair, instruction, glossary, context);
+};
+
+/**
+ * Instruction for re-translating one corrected turn as text, outside the live session.
+ */
+export const getRetranslateInstruction = (sourceLang: LanguageId, targetLang: LanguageId, instruction: string, glossary: GlossaryTerm[] = [], context: string = '') =>
+  `${instruction}\nCURRENT ACTIVE MODE: CORRECTION MODE. You receive the corrected written transcript of one earlier turn instead of live speech. Translate it from ${languageName(sourceLang)} into ${LANGUAGES[targetLang]?.register ?? languageName(targetLang)}, following the rules above. Reply in text with the translation only, without quotes or commentary.${formatGlossaryInstruction(glossary, [sourceLang, targetLang])}${formatContextInstruction(context)}`;
+
+/**
+ * Instruction for a message typed into the composer by a participant who prefers not to speak.
+ */
+export const getTypedMessageInstruction = (sourceLang: LanguageId, targetLang: LanguageId, instruction: string, glossary: GlossaryTerm[] = [], context: string = '') =>
+  `${instruction}\nCURRENT ACTIVE MODE: TYPED MESSAGE MODE. You receive a message a participant typed instead of spoke, such as a question or a comment. Translate it from ${languageName(sourceLang)} into ${LANGUAGES[targetLang]?.register ?? languageName(targetLang)}, following the rules above, as if it had been said aloud in class. Reply in text with the translation only, without quotes or commentary.${formatGlossaryInstruction(glossary, [sourceLang, targetLang])}${formatContextInstruction(context)}`;
+
 export const GEMINI_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const NOTES_MODEL = 'gemini-2.5-flash';
+
+export const RETRANSLATE_MODEL = 'gemini-2.5-flash';
+
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export const CONTEXT_MODEL = 'gemini-2.5-flash';
+
+export const CONTEXT_INSTRUCTION = `
+You prepare a terminology brief for a live academic interpreter from the material of one upcoming lecture
+(slide text, syllabus, reading list or notes). The brief is added to the interpreter's instructions, so it must be short and dense.
+
+Write plain text with these sections, omitting any that would be empty:
+TOPIC: one or two lines on what the lecture covers.
+PEOPLE AND AUTHORS: names exactly as written in the material, with years of cited works.
+TITLES: books, articles, theories and frameworks that are named.
+TERMS: specialist terms, one per line, as "original = translation" into the other classroom language when you are confident of the established translation, otherwise the original only.
+
+Rules:
+- Use only what appears in the material; never add names, works or terms that are not there.
+- Prefer items that are hard to recognize by ear: proper nouns, foreign names, acronyms, numbers in titles.
+- Stay within the character budget given with the material.
+`;
+
+export const buildNotesInstruction = (pair: LanguagePair) => {
+  const lecturer = LANGUAGES[pair.lecturer];
+  const students = LANGUAGES[pair.students];
+  return `
+You are an academic teaching assistant for a university seminar taught by a ${lecturer.name}-speaking professor to ${students.name}-speaking students.
+You receive the bilingual transcript of one lecture (each turn has the original speech and its live translation).
+Write concise study notes for the students in BOTH ${lecturer.register} and ${students.register}.
+Every text field comes as a pair: "${lecturer.id}" holds the ${lecturer.name} version and "${students.id}" the ${students.name} version of the same point.
+
+Rules:
+- Base every point on the transcript only; never invent content, authors or readings that were not mentioned.
+- "arguments": the main arguments or claims the professor made.
+- "methodology": research methodology points (design, sampling, data collection, analysis, validity).
+- "readings": every assigned or recommended reading, author or citation mentioned, written as it was cited.
+- "questions": questions raised by students, with the gist of the answer when one was given.
+- "keyTerms": technical academic terms, each with its ${lecturer.name} and ${students.name} form and a very brief explanation, in the same style as the bracketed [ ] terminology hints used during live translation.
+- Leave a list empty when the lecture did not cover it.
+`;
+};
+
+/**
+ * Accent palettes shared by the operator UI and the audience caption view.
+ */
+export const ACCENT_THEMES: Record<AccentTheme, AccentPalette> = {
+  professional: { 
+    bg: 'bg-blue-800', 
+    text: 'text-blue-800', 
+    border: 'border-blue-800', 
+    lightBg: 'bg-blue-50', 
+    darkText: 'dark:text-blue-400', 
+    soft: 'bg-blue-800/10',
+    hex: '#1e40af',
+    label: 'Professional Blue',
+    desc: 'Reliability & Intelligence'
+  },
+  trustworthy: { 
+    bg: 'bg-green-700', 
+    text: 'text-green-700', 
+    border: 'border-green-700', 
+    lightBg: 'bg-green-50', 
+    darkText: 'dark:text-green-400', 
+    soft: 'bg-green-700/10',
+    hex: '#15803d',
+    label: 'Trustworthy Green',
+    desc: 'Calm & Friendly'
+  },
+  global: { 
+    bg: 'bg-indigo-600', 
+    text: 'text-indigo-600', 
+    border: 'border-indigo-600', 
+    lightBg: 'bg-indigo-50', 
+    darkText: 'dark:text-indigo-400', 
+    soft: 'bg-indigo-600/10',
+    hex: '#4f46e5',
+    label: 'Global Indigo',
+    desc: 'Creative & Connected'
+  },
+  premium: { 
+    bg: 'bg-slate-900', 
+    text: 'text-slate-900', 
+    border: 'border-slate-900', 
+    lightBg: 'bg-slate-100', 
+    darkText: 'dark:text-slate-200', 
+    soft: 'bg-slate-900/10',
+    hex: '#0f172a',
+    label: 'Modern Premium',
+    desc: 'Luxury & Gold'
+  }
+};
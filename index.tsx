@@ -1,16 +1,32 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import CaptionView from './components/CaptionView';
+import JoinRoom from './components/JoinRoom';
+import { normalizeRoomCode, relaySubscriber } from './services/broadcastService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const params = new URLSearchParams(window.location.search);
+const view = params.get('view');
+const room = normalizeRoomCode(params.get('room') || '');
+const relay = params.get('relay') || undefined;
+
+const renderView = () => {
+  if (view === 'join') return <JoinRoom initialRelay={relay} />;
+  if (view !== 'captions') return <App />;
+  // With a room code this is a student device following the relay; otherwise it is
+  // the projector window opened by the operator on this machine.
+  if (room && relay) return <CaptionView subscribe={relaySubscriber(relay, room)} waitingLabel={`Waiting for room ${room}…`} />;
+  return <CaptionView />;
+};
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {renderView()}
   </React.StrictMode>
 );
@@ -0,0 +1,243 @@
+// Caption relay for classroom broadcast.
+//
+// The lecturer's LiveTrans window connects as the room host and publishes caption
+// feeds; student devices connect as viewers of the same room code and receive every
+// feed, starting with the latest one. No dependencies: run it on any machine on the
+// classroom LAN with `npm run relay` (PORT=8787 by default).
+//
+// The room code is public (it is on the projector), so hosting needs a separate key.
+// The first host to join a room claims it with its key; later host connections must
+// present the same key, and a room keeps its key until it has been idle for a while.
+//
+//   ws://<host>:8787/?room=ABC123&role=host&key=<secret>
+//   ws://<host>:8787/?room=ABC123&role=viewer
+//   http://<host>:8787/health
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1024 * 1024;
+const HEARTBEAT_MS = 30000;
+const ROOM_PATTERN = /^[A-Z0-9]{4,12}$/;
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const ROOM_HOLD_MS = 2 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Minimal WebSocket framing (RFC 6455, text frames only)
+// ---------------------------------------------------------------------------
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const createClient = (socket, onText, onClose) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  const client = { alive: true };
+
+  client.send = (text) => {
+    if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+  };
+  client.ping = () => {
+    if (!closed) socket.write(encodeFrame(0x9));
+  };
+  client.close = (code = 1000, reason = '') => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    socket.end(encodeFrame(0x8, payload));
+    finish();
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    onClose(client);
+  };
+
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_PAYLOAD) { client.close(1002, 'protocol error'); return; }
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) { client.close(); return; }
+      if (opcode === 0x9) { socket.write(encodeFrame(0xa, payload)); continue; }
+      if (opcode === 0xa) { client.alive = true; continue; }
+      if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          onText(client, text);
+        }
+      }
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+  return client;
+};
+
+// ---------------------------------------------------------------------------
+// Relay
+// ---------------------------------------------------------------------------
+
+/** Creates the relay's HTTP server; call `listen` on it. Each server has its own rooms. */
+export function createCaptionRelay() {
+  /** @type {Map<string, { host: any, hostKey: string | null, viewers: Set<any>, latest: string | null, idleSince: number | null }>} */
+  const rooms = new Map();
+
+  const roomFor = (code) => {
+    if (!rooms.has(code)) rooms.set(code, { host: null, hostKey: null, viewers: new Set(), latest: null, idleSince: null });
+    const room = rooms.get(code);
+    room.idleSince = null;
+    return room;
+  };
+
+  // A claimed room is held for its host across relay blips and short breaks
+  const markIdleRoom = (code) => {
+    const room = rooms.get(code);
+    if (!room || room.host || room.viewers.size > 0) return;
+    if (room.hostKey) room.idleSince = Date.now();
+    else rooms.delete(code);
+  };
+
+  const announceViewers = (room) => {
+    room.host?.send(JSON.stringify({ type: 'viewers', count: room.viewers.size }));
+  };
+
+  const joinAsHost = (code, key, client) => {
+    const room = roomFor(code);
+    if (!KEY_PATTERN.test(key) || (room.hostKey && room.hostKey !== key)) {
+      client.close(4003, 'forbidden');
+      return;
+    }
+    room.hostKey = key;
+    // A reloaded operator window takes the room over from its previous connection
+    const previous = room.host;
+    room.host = client;
+    previous?.close(4001, 'replaced');
+    announceViewers(room);
+  };
+
+  const joinAsViewer = (code, client) => {
+    const room = roomFor(code);
+    room.viewers.add(client);
+    if (room.latest) client.send(room.latest);
+    announceViewers(room);
+  };
+
+  const handleText = (code, role) => (client, text) => {
+    const room = rooms.get(code);
+    if (role !== 'host' || !room || room.host !== client) return;
+    let message;
+    try { message = JSON.parse(text); } catch (e) { return; }
+    if (message?.type === 'feed') room.latest = text;
+    if (message?.type === 'feed' || message?.type === 'bye') room.viewers.forEach(viewer => viewer.send(text));
+    if (message?.type === 'bye') room.latest = null;
+  };
+
+  const handleClose = (code, role) => (client) => {
+    const room = rooms.get(code);
+    if (!room) return;
+    if (role === 'host' && room.host === client) {
+      room.host = null;
+      room.latest = null;
+      room.viewers.forEach(viewer => viewer.send(JSON.stringify({ type: 'bye' })));
+    } else if (role === 'viewer') {
+      room.viewers.delete(client);
+      announceViewers(room);
+    }
+    markIdleRoom(code);
+  };
+
+  const server = createServer((req, res) => {
+    if (req.url?.startsWith('/health')) {
+      const viewers = Array.from(rooms.values()).reduce((n, room) => n + room.viewers.size, 0);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify({ rooms: rooms.size, viewers }));
+      return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('LiveTrans caption relay: connect with a WebSocket client\n');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const url = new URL(req.url || '/', 'http://relay');
+    const code = (url.searchParams.get('room') || '').toUpperCase();
+    const role = url.searchParams.get('role') === 'host' ? 'host' : 'viewer';
+    const key = req.headers['sec-websocket-key'];
+    if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket' || !ROOM_PATTERN.test(code)) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    socket.setNoDelay(true);
+
+    const client = createClient(socket, handleText(code, role), handleClose(code, role));
+    if (role === 'host') joinAsHost(code, url.searchParams.get('key') || '', client);
+    else joinAsViewer(code, client);
+  });
+
+  const heartbeat = setInterval(() => {
+    rooms.forEach((room, code) => {
+      if (room.idleSince && Date.now() - room.idleSince > ROOM_HOLD_MS) { rooms.delete(code); return; }
+      [room.host, ...room.viewers].filter(Boolean).forEach(client => {
+        if (!client.alive) { client.close(1001, 'timeout'); return; }
+        client.alive = false;
+        client.ping();
+      });
+    });
+  }, HEARTBEAT_MS);
+
+  server.on('close', () => clearInterval(heartbeat));
+
+  return server;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  createCaptionRelay().listen(PORT, () => {
+    console.log(`LiveTrans caption relay listening on :${PORT}`);
+  });
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import WebSocket from 'ws';
+import type { RelayMessage } from '../services/broadcastService';
+import { createCaptionRelay } from './captionRelay.mjs';
+
+const HOST_KEY = 'k'.repeat(32);
+
+/** A message from the relay, or the close code once the relay closed the socket. */
+type Received = RelayMessage | { closed: number };
+
+interface TestClient {
+  socket: WebSocket;
+  /** Resolves with the next message, parsed, or the close code once the relay closes the socket. */
+  next: () => Promise<Received>;
+  close: () => Promise<void>;
+}
+
+let relay: Server;
+let port: number;
+let clients: TestClient[];
+
+const connect = (query: string) => new Promise<TestClient>((resolve, reject) => {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}/?${query}`);
+  const queue: Received[] = [];
+  const waiting: ((value: Received) => void)[] = [];
+  const push = (value: Received) => (waiting.length ? waiting.shift()!(value) : queue.push(value));
+  socket.on('message', data => push(JSON.parse(data.toString()) as RelayMessage));
+  socket.on('close', code => push({ closed: code }));
+  socket.on('error', reject);
+  const client: TestClient = {
+    socket,
+    next: () => (queue.length ? Promise.resolve(queue.shift()!) : new Promise(r => waiting.push(r))),
+    close: () => new Promise(r => {
+      if (socket.readyState === WebSocket.CLOSED) return r();
+      socket.once('close', () => r());
+      socket.close();
+    })
+  };
+  clients.push(client);
+  socket.on('open', () => resolve(client));
+});
+
+const host = (key: string = HOST_KEY) => connect(`room=ABC123&role=host&key=${key}`);
+const viewer = () => connect('room=abc123&role=viewer');
+/** The live text of the next message, which must be a caption feed. */
+const nextCaption = async (client: TestClient) => {
+  const message = await client.next();
+  if (!('type' in message) || message.type !== 'feed') throw new Error(`Expected a feed, got ${JSON.stringify(message)}`);
+  return message.feed.currentInput;
+};
+
+const feed = (text: string) => JSON.stringify({ type: 'feed', feed: { currentInput: text, entries: [] } });
+
+beforeEach(async () => {
+  clients = [];
+  relay = createCaptionRelay();
+  await new Promise<void>(resolve => relay.listen(0, '127.0.0.1', resolve));
+  port = (relay.address() as AddressInfo).port;
+});
+
+afterEach(async () => {
+  await Promise.all(clients.map(client => client.close()));
+  await new Promise(resolve => relay.close(resolve));
+});
+
+describe('caption relay', () => {
+  it('sends host feeds to every viewer of the room', async () => {
+    const lecturer = await host();
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 0 });
+    const first = await viewer();
+    const second = await viewer();
+    const other = await connect('room=XYZ789&role=viewer');
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 1 });
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 2 });
+
+    lecturer.socket.send(feed('สวัสดี'));
+    lecturer.socket.send(feed('ครับ'));
+    for (const student of [first, second]) {
+      expect(await nextCaption(student)).toBe('สวัสดี');
+      expect(await nextCaption(student)).toBe('ครับ');
+    }
+
+    lecturer.socket.send(JSON.stringify({ type: 'bye' }));
+    expect(await first.next()).toEqual({ type: 'bye' });
+    // Viewers of another room hear nothing
+    expect(await Promise.race([other.next(), Promise.resolve('nothing')])).toBe('nothing');
+  });
+
+  it('replays the latest feed to a viewer who joins late', async () => {
+    const lecturer = await host();
+    await lecturer.next();
+    lecturer.socket.send(feed('one'));
+    lecturer.socket.send(feed('two'));
+    const student = await viewer();
+    expect(await nextCaption(student)).toBe('two');
+  });
+
+  it('tells viewers the broadcast ended when the host disconnects', async () => {
+    const lecturer = await host();
+    await lecturer.next();
+    lecturer.socket.send(feed('one'));
+    const student = await viewer();
+    await student.next();
+    await lecturer.close();
+    expect(await student.next()).toEqual({ type: 'bye' });
+
+    // The ended broadcast is not replayed to later viewers
+    const late = await viewer();
+    const returning = await host();
+    expect(await returning.next()).toEqual({ type: 'viewers', count: 2 });
+    returning.socket.send(feed('again'));
+    expect(await nextCaption(late)).toBe('again');
+  });
+
+  it('keeps the host informed of the viewer count', async () => {
+    const lecturer = await host();
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 0 });
+    const first = await viewer();
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 1 });
+    await viewer();
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 2 });
+    await first.close();
+    expect(await lecturer.next()).toEqual({ type: 'viewers', count: 1 });
+  });
+
+  it('refuses host connections without the room key', async () => {
+    const lecturer = await host();
+    await lecturer.next();
+    const student = await viewer();
+    await lecturer.next();
+
+    expect(await (await host('x'.repeat(32))).next()).toEqual({ closed: 4003 });
+    expect(await (await connect('room=ABC123&role=host')).next()).toEqual({ closed: 4003 });
+
+    // A viewer cannot publish either
+    student.socket.send(feed('spoofed'));
+    lecturer.socket.send(feed('real'));
+    expect(await nextCaption(student)).toBe('real');
+  });
+
+  it('lets the same key take the room over from a stale connection', async () => {
+    const stale = await host();
+    await stale.next();
+    const reloaded = await host();
+    expect(await stale.next()).toEqual({ closed: 4001 });
+    expect(await reloaded.next()).toEqual({ type: 'viewers', count: 0 });
+  });
+});
@@ -0,0 +1,63 @@
+import { HighlightColor, TranscriptEntry } from '../types';
+
+/**
+ * Bookmarks, stars, colour highlights and notes on transcript entries. They are plain
+ * optional fields on `TranscriptEntry`, so they are saved and exported with the entry.
+ */
+
+export type EntryAnnotation = Pick<TranscriptEntry, 'bookmarked' | 'starred' | 'highlight' | 'annotation'>;
+
+export const HIGHLIGHT_COLORS: { color: HighlightColor; label: string; swatch: string; hex: string }[] = [
+  { color: 'yellow', label: 'Yellow', swatch: 'bg-yellow-400', hex: '#fef08a' },
+  { color: 'green', label: 'Green', swatch: 'bg-green-400', hex: '#bbf7d0' },
+  { color: 'blue', label: 'Blue', swatch: 'bg-sky-400', hex: '#bae6fd' },
+  { color: 'pink', label: 'Pink', swatch: 'bg-pink-400', hex: '#fbcfe8' }
+];
+
+export const highlightInfo = (color: HighlightColor | undefined) => HIGHLIGHT_COLORS.find(h => h.color === color);
+
+/** Applies `patch`, dropping fields that were cleared so saved entries stay compact. */
+export function annotateEntry(entry: TranscriptEntry, patch: Partial<EntryAnnotation>): TranscriptEntry {
+  const next: TranscriptEntry = { ...entry, ...patch };
+  if (!next.bookmarked) delete next.bookmarked;
+  if (!next.starred) delete next.starred;
+  if (!next.highlight) delete next.highlight;
+  if (!next.annotation?.trim()) delete next.annotation;
+  return next;
+}
+
+export const isMarked = (entry: TranscriptEntry) =>
+  Boolean(entry.bookmarked || entry.starred || entry.highlight || entry.annotation?.trim());
+
+export type MarkFilter = 'all' | 'marked' | 'bookmarked' | 'starred' | 'annotated' | HighlightColor;
+
+export const MARK_FILTERS: { value: MarkFilter; label: string }[] = [
+  { value: 'all', label: 'All entries' },
+  { value: 'marked', label: 'Any mark' },
+  { value: 'bookmarked', label: 'Bookmarks' },
+  { value: 'starred', label: 'Starred' },
+  { value: 'annotated', label: 'With notes' },
+  ...HIGHLIGHT_COLORS.map(({ color, label }) => ({ value: color, label: `${label} highlight` }))
+];
+
+export function matchesMark(entry: TranscriptEntry, mark: MarkFilter): boolean {
+  switch (mark) {
+    case 'all': return true;
+    case 'marked': return isMarked(entry);
+    case 'bookmarked': return Boolean(entry.bookmarked);
+    case 'starred': return Boolean(entry.starred);
+    case 'annotated': return Boolean(entry.annotation?.trim());
+    default: return entry.highlight === mark;
+  }
+}
+
+/** Short labels for plain-text formats, e.g. ["bookmark", "starred", "highlight yellow"]. */
+export const markLabels = (entry: TranscriptEntry): string[] =>
+  [entry.bookmarked && 'bookmark', entry.starred && 'starred', entry.highlight && `highlight ${entry.highlight}`].filter(Boolean) as string[];
+
+/** Heading for the outline: the note when there is one, otherwise the start of the turn. */
+export function outlineTitle(entry: TranscriptEntry, maxLength: number = 80): string {
+  const source = entry.annotation?.trim() || entry.text.trim() || entry.translation.trim();
+  const line = source.split('\n')[0];
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
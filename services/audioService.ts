@@ -1,9 +1,12 @@
+import { resample } from './resampler';
+
 
 export function encodeAudio(bytes: Uint8Array): string {
+  // Convert in blocks rather than per byte to keep long frames cheap
+  const CHUNK = 0x8000;
   let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  for (let i = 0; i < bytes.byteLength; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + CHUNK) as unknown as number[]);
   }
   return btoa(binary);
 }
@@ -38,34 +41,56 @@ export async function decodeAudioData(
 }
 
 /**
- * Downsamples audio from a source rate to 16000Hz for Gemini compatibility.
+ * Converts float samples in [-1, 1] to 16-bit PCM without overflowing at +1.0.
  */
-export function downsample(buffer: Float32Array, fromRate: number, toRate: number = 16000): Int16Array {
-  if (fromRate === toRate) {
-    const result = new Int16Array(buffer.length);
-    for (let i = 0; i < buffer.length; i++) {
-      result[i] = Math.max(-32768, Math.min(32767, buffer[i] * 32768));
-    }
-    return result;
+export function floatToPcm16(buffer: Float32Array): Int16Array {
+  const result = new Int16Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    const s = Math.max(-1, Math.min(1, buffer[i]));
+    result[i] = s < 0 ? s * 32768 : s * 32767;
   }
-  
-  const sampleRateRatio = fromRate / toRate;
-  const newLength = Math.round(buffer.length / sampleRateRatio);
-  const result = new Int16Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < result.length) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    let accum = 0;
-    let count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    result[offsetResult] = Math.max(-32768, Math.min(32767, (accum / count) * 32768));
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
+  return result;
+}
+
+/**
+ * Sums two 16-bit PCM frames with clipping; a shorter `b` only covers the start of `a`.
+ */
+export function mixPcm16(a: Int16Array, b: Int16Array): Int16Array {
+  const result = new Int16Array(a);
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    result[i] = Math.max(-32768, Math.min(32767, a[i] + b[i]));
   }
   return result;
 }
+
+/**
+ * Downsamples audio from a source rate to 16000Hz for Gemini compatibility.
+ * One-shot helper; streaming callers should keep a `createResampler` instance instead.
+ */
+export function downsample(buffer: Float32Array, fromRate: number, toRate: number = 16000): Int16Array {
+  return floatToPcm16(resample(buffer, fromRate, toRate));
+}
+
+/**
+ * Wraps 16-bit mono PCM in a WAV (RIFF) container.
+ */
+export function encodeWav(pcm: Int16Array, sampleRate: number): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header.buffer, new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)], { type: 'audio/wav' });
+}
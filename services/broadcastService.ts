@@ -0,0 +1,185 @@
+import { CaptionFeed, CaptionPublisher, CaptionSubscribe, CAPTION_HISTORY } from './captionChannel';
+import { backoffDelay } from './connectionManager';
+
+/**
+ * Classroom broadcast: the lecturer's window pushes caption feeds to a small relay
+ * (`server/captionRelay.mjs`) and student devices follow the same room code.
+ */
+
+export type BroadcastStatus = 'connecting' | 'live' | 'reconnecting' | 'refused' | 'replaced';
+
+const RELAY_KEY = 'edutranslate_relay_url';
+const ROOM_KEY = 'edutranslate_broadcast_room';
+const HOST_KEY = 'edutranslate_broadcast_host_key';
+const RELAY_PORT = 8787;
+// No 0/O or 1/I so codes survive being read aloud or copied from a projector
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_LENGTH = 6;
+
+export type RelayMessage =
+  | { type: 'feed'; feed: CaptionFeed }
+  | { type: 'bye' }
+  | { type: 'viewers'; count: number };
+
+export const createRoomCode = () =>
+  Array.from({ length: ROOM_LENGTH }, () => ROOM_ALPHABET[Math.floor(Math.random() * ROOM_ALPHABET.length)]).join('');
+
+export const normalizeRoomCode = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const defaultRelayUrl = () =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export const loadRelayUrl = () => localStorage.getItem(RELAY_KEY) || defaultRelayUrl();
+
+export const saveRelayUrl = (url: string) => localStorage.setItem(RELAY_KEY, url);
+
+/** The room code is kept so students can rejoin the same room in the next lecture. */
+export function loadRoomCode(): string {
+  const saved = localStorage.getItem(ROOM_KEY);
+  if (saved) return saved;
+  const code = createRoomCode();
+  localStorage.setItem(ROOM_KEY, code);
+  return code;
+}
+
+export const saveRoomCode = (code: string) => localStorage.setItem(ROOM_KEY, code);
+
+/**
+ * Secret that proves this browser hosts its rooms. Unlike the room code it is never shown,
+ * so a student cannot take the room over; it survives reloads so the lecturer's window can.
+ */
+export function loadHostKey(): string {
+  const saved = localStorage.getItem(HOST_KEY);
+  if (saved) return saved;
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const key = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem(HOST_KEY, key);
+  return key;
+}
+
+export const joinUrl = (room: string, relayUrl: string) =>
+  `${window.location.origin}${window.location.pathname}?view=captions&room=${room}&relay=${encodeURIComponent(relayUrl)}`;
+
+/** Loopback addresses only work on this computer, not on students' phones. */
+export const isLocalOnlyAddress = (url: string) => {
+  try {
+    return /^(localhost|127\.|\[?::1\]?$)/.test(new URL(url).hostname);
+  } catch (e) {
+    return true;
+  }
+};
+
+const roomSocketUrl = (relayUrl: string, room: string, role: 'host' | 'viewer') =>
+  `${relayUrl.replace(/\/+$/, '')}/?room=${encodeURIComponent(room)}&role=${role}`;
+
+/** Close codes the relay uses when a host is turned away; retrying would not help. */
+const CLOSE_REPLACED = 4001;
+const CLOSE_FORBIDDEN = 4003;
+
+interface ReconnectingSocketOptions {
+  url: string;
+  onOpen: (socket: WebSocket) => void;
+  onMessage: (message: RelayMessage) => void;
+  onDown: (attempt: number) => void;
+  onRefused?: (code: number) => void;
+}
+
+/** WebSocket that keeps reconnecting with backoff until `close()` is called or the relay refuses it. */
+const openReconnectingSocket = ({ url, onOpen, onMessage, onDown, onRefused }: ReconnectingSocketOptions) => {
+  let socket: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      attempt = 0;
+      onOpen(socket!);
+    };
+    socket.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (e) {}
+    };
+    socket.onclose = (event) => {
+      socket = null;
+      if (closed) return;
+      if (event.code === CLOSE_REPLACED || event.code === CLOSE_FORBIDDEN) {
+        closed = true;
+        onRefused?.(event.code);
+        return;
+      }
+      attempt++;
+      onDown(attempt);
+      timer = setTimeout(connect, backoffDelay(attempt, 1000, 10000));
+    };
+  };
+
+  connect();
+
+  return {
+    send(text: string) {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(text);
+    },
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      socket?.close();
+    }
+  };
+};
+
+interface BroadcastHostOptions {
+  relayUrl: string;
+  room: string;
+  hostKey: string;
+  onStatus: (status: BroadcastStatus) => void;
+  onViewers: (count: number) => void;
+}
+
+/**
+ * Publishes caption feeds to a relay room. Only the newest feed matters, so nothing is
+ * queued while the relay is unreachable; the latest one is resent on reconnect.
+ */
+export function createBroadcastHost({ relayUrl, room, hostKey, onStatus, onViewers }: BroadcastHostOptions): CaptionPublisher {
+  let latest: string | null = null;
+  onStatus('connecting');
+  const socket = openReconnectingSocket({
+    url: `${roomSocketUrl(relayUrl, room, 'host')}&key=${encodeURIComponent(hostKey)}`,
+    onOpen: (ws) => {
+      onStatus('live');
+      if (latest) ws.send(latest);
+    },
+    onMessage: (message) => {
+      if (message.type === 'viewers') onViewers(message.count);
+    },
+    onDown: () => onStatus('reconnecting'),
+    onRefused: (code) => onStatus(code === CLOSE_FORBIDDEN ? 'refused' : 'replaced')
+  });
+
+  return {
+    publish(feed: CaptionFeed) {
+      latest = JSON.stringify({ type: 'feed', feed: { ...feed, entries: feed.entries.slice(-CAPTION_HISTORY) } } as RelayMessage);
+      socket.send(latest);
+    },
+    close() {
+      socket.send(JSON.stringify({ type: 'bye' } as RelayMessage));
+      socket.close();
+    }
+  };
+}
+
+/** Caption source for a student device following `room` on the relay. */
+export const relaySubscriber = (relayUrl: string, room: string): CaptionSubscribe => (onFeed) => {
+  const socket = openReconnectingSocket({
+    url: roomSocketUrl(relayUrl, room, 'viewer'),
+    onOpen: () => {},
+    onMessage: (message) => {
+      if (message.type === 'feed') onFeed(message.feed);
+      else if (message.type === 'bye') onFeed(null);
+    },
+    onDown: () => onFeed(null)
+  });
+  return () => socket.close();
+};
@@ -0,0 +1,132 @@
+import { AccentTheme, LanguageId, TranscriptEntry, UserRole } from '../types';
+
+/**
+ * Everything the audience caption view needs to render one frame. The operator window
+ * publishes a fresh feed whenever the live text or the transcript changes.
+ */
+export interface CaptionFeed {
+  live: boolean;
+  currentInput: string;
+  currentOutput: string;
+  liveRole: UserRole;
+  entries: TranscriptEntry[];
+  accentTheme: AccentTheme;
+  /** Language pair of the session, so the view can label and filter by language. */
+  pairId: string;
+  sessionName?: string;
+}
+
+type CaptionMessage =
+  | { type: 'feed'; feed: CaptionFeed }
+  | { type: 'hello' }
+  | { type: 'bye' };
+
+export type CaptionSubscribe = (onFeed: (feed: CaptionFeed | null) => void) => () => void;
+
+const CHANNEL_NAME = 'livetrans-captions';
+
+/** Finished entries sent along with the live text; the view shows at most this many. */
+export const CAPTION_HISTORY = 8;
+
+export const captionViewUrl = () => `${window.location.pathname}?view=captions`;
+
+export interface CaptionPublisher {
+  publish(feed: CaptionFeed): void;
+  close(): void;
+}
+
+/**
+ * Broadcasts caption feeds to every caption view opened from the same origin. A view
+ * that opens later says "hello" and immediately gets the latest feed back.
+ */
+export function createCaptionPublisher(): CaptionPublisher {
+  if (typeof BroadcastChannel === 'undefined') return { publish() {}, close() {} };
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  let latest: CaptionFeed | null = null;
+
+  channel.onmessage = (event: MessageEvent<CaptionMessage>) => {
+    if (event.data?.type === 'hello' && latest) channel.postMessage({ type: 'feed', feed: latest } as CaptionMessage);
+  };
+
+  return {
+    publish(feed: CaptionFeed) {
+      latest = { ...feed, entries: feed.entries.slice(-CAPTION_HISTORY) };
+      channel.postMessage({ type: 'feed', feed: latest } as CaptionMessage);
+    },
+    close() {
+      try { channel.postMessage({ type: 'bye' } as CaptionMessage); } catch (e) {}
+      channel.close();
+    }
+  };
+}
+
+/** Listens for the operator window; `null` means it went away. */
+export const subscribeCaptions: CaptionSubscribe = (onFeed) => {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CaptionMessage>) => {
+    if (event.data?.type === 'feed') onFeed(event.data.feed);
+    else if (event.data?.type === 'bye') onFeed(null);
+  };
+  channel.postMessage({ type: 'hello' } as CaptionMessage);
+  return () => channel.close();
+};
+
+// ---------------------------------------------------------------------------
+// Display settings (kept per caption window)
+// ---------------------------------------------------------------------------
+
+/** A `LanguageId` shows every line in that language, whoever was speaking. */
+export type CaptionLanguage = 'source' | 'translation' | 'both' | LanguageId;
+export type CaptionScheme = 'dark' | 'light' | 'accent' | 'contrast';
+
+export interface CaptionSettings {
+  /** Size of the newest line in pixels; earlier lines are drawn smaller. */
+  fontSize: number;
+  /** Finished entries kept on screen above the live line. */
+  lines: number;
+  language: CaptionLanguage;
+  scheme: CaptionScheme;
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = { fontSize: 56, lines: 2, language: 'both', scheme: 'dark' };
+
+const SETTINGS_KEY = 'edutranslate_caption_settings';
+
+export function loadCaptionSettings(): CaptionSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CAPTION_SETTINGS;
+  } catch (e) {
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+}
+
+export function saveCaptionSettings(settings: CaptionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export interface CaptionColors {
+  background: string;
+  text: string;
+  /** Secondary line (the source text when both languages are shown). */
+  muted: string;
+  accent: string;
+}
+
+/**
+ * Projector-friendly palettes derived from an accent theme. Caption text is always
+ * white, black or yellow; the accent color is only used where contrast allows.
+ */
+export function captionColors(scheme: CaptionScheme, accentHex: string): CaptionColors {
+  switch (scheme) {
+    case 'light':
+      return { background: '#ffffff', text: '#000000', muted: '#334155', accent: accentHex };
+    case 'accent':
+      return { background: accentHex, text: '#ffffff', muted: '#e2e8f0', accent: '#ffffff' };
+    case 'contrast':
+      return { background: '#000000', text: '#ffff00', muted: '#ffffff', accent: '#ffff00' };
+    default:
+      return { background: '#000000', text: '#ffffff', muted: '#cbd5e1', accent: accentHex === '#0f172a' ? '#ffffff' : accentHex };
+  }
+}
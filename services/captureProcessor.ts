@@ -0,0 +1,53 @@
+/**
+ * AudioWorklet processor: runs on the audio rendering thread, collects microphone
+ * render quanta into fixed-duration frames, resamples them with a streaming filter (so
+ * there are no discontinuities between frames) and packs them as Int16 PCM.
+ * Loaded through captureService.ts; never import this module from the main thread.
+ */
+import { floatToPcm16 } from './audioService';
+import { createResampler, Resampler } from './resampler';
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+export interface CaptureProcessorOptions {
+  targetRate: number;
+  frameMs: number;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private resampler: Resampler;
+  private frame: Float32Array;
+  private filled = 0;
+
+  constructor(options: { processorOptions: CaptureProcessorOptions }) {
+    super(options);
+    const { targetRate, frameMs } = options.processorOptions;
+    this.resampler = createResampler(sampleRate, targetRate);
+    this.frame = new Float32Array(Math.max(128, Math.round(sampleRate * frameMs / 1000)));
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.frame.length) {
+        const pcm = floatToPcm16(this.resampler.process(this.frame));
+        this.port.postMessage(pcm, [pcm.buffer]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,50 @@
+import captureProcessorUrl from './captureProcessor?worker&url';
+import type { CaptureProcessorOptions } from './captureProcessor';
+
+export interface CaptureOptions extends Partial<CaptureProcessorOptions> {
+  /** Receives each ready-to-send frame of 16-bit mono PCM at `targetRate`. */
+  onFrame: (pcm: Int16Array) => void;
+}
+
+export interface CapturePipeline {
+  node: AudioWorkletNode;
+  targetRate: number;
+  /** Feeds the pipeline from another source (e.g. a newly plugged-in microphone) without restarting it. */
+  setSource(source: AudioNode): void;
+  disconnect(): void;
+}
+
+export const DEFAULT_CAPTURE_RATE = 16000;
+export const DEFAULT_FRAME_MS = 100;
+
+/**
+ * Attaches the capture worklet to `source`. Resampling and PCM packing happen off the
+ * main thread, so send latency does not depend on React rendering load.
+ */
+export async function createCapturePipeline(ctx: AudioContext, initialSource: AudioNode, options: CaptureOptions): Promise<CapturePipeline> {
+  const { targetRate = DEFAULT_CAPTURE_RATE, frameMs = DEFAULT_FRAME_MS, onFrame } = options;
+  await ctx.audioWorklet.addModule(captureProcessorUrl);
+  const node = new AudioWorkletNode(ctx, 'capture-processor', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate, frameMs } satisfies CaptureProcessorOptions
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onFrame(e.data);
+  let source = initialSource;
+  source.connect(node);
+  return {
+    node,
+    targetRate,
+    setSource(next) {
+      try { source.disconnect(node); } catch (e) {}
+      source = next;
+      source.connect(node);
+    },
+    disconnect() {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch (e) {}
+    }
+  };
+}
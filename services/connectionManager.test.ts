@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslationEventHandler, TranslationProvider, TranslationSessionConfig } from './translationProvider';
+import { backoffDelay, ConnectionEvent, ConnectionManager, createConnectionManager } from './connectionManager';
+
+interface FakeProvider extends TranslationProvider {
+  config: TranslationSessionConfig | null;
+  sent: Int16Array[];
+  closed: boolean;
+  emit: TranslationEventHandler;
+}
+
+const CONFIG: TranslationSessionConfig = { systemInstruction: 'translate', voiceName: 'Kore' };
+
+let providers: FakeProvider[];
+let failConnect: boolean;
+let events: ConnectionEvent[];
+let manager: ConnectionManager;
+
+const createFakeProvider = (): FakeProvider => {
+  const provider: FakeProvider = {
+    name: 'Fake',
+    config: null,
+    sent: [],
+    closed: false,
+    emit: () => {},
+    async connect(config, onEvent) {
+      if (failConnect) throw new Error('unreachable');
+      provider.config = config;
+      provider.emit = onEvent;
+    },
+    sendAudio(pcm) { provider.sent.push(pcm); },
+    endAudioStream() {},
+    close() { provider.closed = true; }
+  };
+  providers.push(provider);
+  return provider;
+};
+
+const latest = () => providers[providers.length - 1];
+// 100 ms of audio at 16 kHz, filled with a marker value
+const frame = (marker: number) => new Int16Array(1600).fill(marker);
+const markers = (provider: FakeProvider) => provider.sent.map(pcm => pcm[0]);
+
+const start = async (options: Partial<Parameters<typeof createConnectionManager>[0]> = {}) => {
+  manager = createConnectionManager({ createProvider: createFakeProvider, maxAttempts: 3, baseDelayMs: 500, ...options });
+  await manager.connect(CONFIG, e => events.push(e));
+  latest().emit({ type: 'open' });
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Removes the jitter, so each delay is exactly the backoff step
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  providers = [];
+  failConnect = false;
+  events = [];
+});
+
+afterEach(() => {
+  manager?.close();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt, 500, 4000))).toEqual([500, 1000, 2000, 4000, 4000]);
+  });
+});
+
+describe('createConnectionManager', () => {
+  it('passes the first open and backend events through', async () => {
+    await start();
+    latest().emit({ type: 'inputText', text: 'สวัสดี' });
+    latest().emit({ type: 'turnComplete' });
+    expect(events).toEqual([{ type: 'open' }, { type: 'inputText', text: 'สวัสดี' }, { type: 'turnComplete' }]);
+    expect(latest().config).toEqual(CONFIG);
+  });
+
+  it('reconnects after a drop, resuming the backend session', async () => {
+    await start();
+    latest().emit({ type: 'resumable', handle: 'h1' });
+    const dropped = latest();
+    const error = new Error('socket reset');
+    dropped.emit({ type: 'error', error });
+
+    expect(dropped.closed).toBe(true);
+    expect(events.at(-1)).toEqual({ type: 'reconnecting', attempt: 1, delayMs: 500, error });
+    vi.advanceTimersByTime(499);
+    expect(providers).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(providers).toHaveLength(2);
+    expect(latest().config).toEqual({ ...CONFIG, resumeHandle: 'h1' });
+
+    latest().emit({ type: 'open' });
+    expect(events.at(-1)).toEqual({ type: 'reconnected', attempt: 1 });
+  });
+
+  it('reports a close without an error as a drop as well', async () => {
+    await start();
+    latest().emit({ type: 'close' });
+    expect(events.at(-1)).toEqual({ type: 'reconnecting', attempt: 1, delayMs: 500, error: undefined });
+  });
+
+  it('ignores events from a connection it already dropped', async () => {
+    await start();
+    const dropped = latest();
+    dropped.emit({ type: 'error', error: new Error('lost') });
+    const count = events.length;
+    dropped.emit({ type: 'outputText', text: 'late' });
+    dropped.emit({ type: 'close' });
+    expect(events).toHaveLength(count);
+  });
+
+  it('buffers audio while disconnected and replays it in order', async () => {
+    await start();
+    manager.sendAudio(frame(1), 16000);
+    latest().emit({ type: 'close' });
+    manager.sendAudio(frame(2), 16000);
+    manager.sendAudio(frame(3), 16000);
+    vi.advanceTimersByTime(500);
+    expect(markers(latest())).toEqual([]);
+
+    latest().emit({ type: 'open' });
+    expect(markers(providers[0])).toEqual([1]);
+    expect(markers(latest())).toEqual([2, 3]);
+    manager.sendAudio(frame(4), 16000);
+    expect(markers(latest())).toEqual([2, 3, 4]);
+  });
+
+  it('keeps only the most recent audio within maxBufferMs', async () => {
+    await start({ maxBufferMs: 250 });
+    latest().emit({ type: 'close' });
+    [1, 2, 3, 4].forEach(marker => manager.sendAudio(frame(marker), 16000));
+    vi.advanceTimersByTime(500);
+    latest().emit({ type: 'open' });
+    expect(markers(latest())).toEqual([3, 4]);
+  });
+
+  it('backs off between failed attempts and gives up after maxAttempts', async () => {
+    await start();
+    failConnect = true;
+    latest().emit({ type: 'close' });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(events.at(-1)).toMatchObject({ type: 'reconnecting', attempt: 2, delayMs: 1000 });
+    expect((events.at(-1) as { error: Error }).error.message).toBe('unreachable');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(events.at(-1)).toMatchObject({ type: 'reconnecting', attempt: 3, delayMs: 2000 });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    const [error, close] = events.slice(-2);
+    expect(error.type === 'error' && (error.error as Error).message).toBe('Reconnection failed after 3 attempts');
+    expect(close).toEqual({ type: 'close' });
+    expect(providers).toHaveLength(4);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(providers).toHaveLength(4);
+  });
+
+  it('starts counting attempts again after a successful reconnect', async () => {
+    await start();
+    latest().emit({ type: 'close' });
+    vi.advanceTimersByTime(500);
+    latest().emit({ type: 'open' });
+    latest().emit({ type: 'close' });
+    expect(events.at(-1)).toMatchObject({ type: 'reconnecting', attempt: 1, delayMs: 500 });
+  });
+
+  it('surfaces a failure before the first open without retrying', async () => {
+    manager = createConnectionManager({ createProvider: createFakeProvider });
+    await manager.connect(CONFIG, e => events.push(e));
+    const error = new Error('bad key');
+    latest().emit({ type: 'error', error });
+    expect(events).toEqual([{ type: 'error', error }, { type: 'close' }]);
+    vi.advanceTimersByTime(60000);
+    expect(providers).toHaveLength(1);
+  });
+
+  it('does not buffer audio before the first open', async () => {
+    manager = createConnectionManager({ createProvider: createFakeProvider });
+    await manager.connect(CONFIG, e => events.push(e));
+    manager.sendAudio(frame(1), 16000);
+    latest().emit({ type: 'open' });
+    expect(markers(latest())).toEqual([]);
+  });
+
+  it('cancels a pending reconnect on close', async () => {
+    await start();
+    latest().emit({ type: 'close' });
+    manager.close();
+    vi.advanceTimersByTime(60000);
+    expect(providers).toHaveLength(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
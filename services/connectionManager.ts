@@ -0,0 +1,169 @@
+import { TranslationEvent, TranslationProvider, TranslationSessionConfig } from './translationProvider';
+
+/**
+ * Keeps a live translation session alive across network drops.
+ *
+ * After the first successful open, an unexpected `error`/`close` from the backend starts a
+ * reconnect loop with exponential backoff. Microphone frames sent while disconnected are
+ * buffered (bounded by `maxBufferMs`) and replayed once the new connection opens. The
+ * latest resumption handle from the backend is passed back on reconnect so server-side
+ * context survives. Only when every attempt fails is `error` + `close` surfaced.
+ */
+export type ConnectionEvent =
+  | TranslationEvent
+  /** `error` is what dropped the connection, when the backend reported one. */
+  | { type: 'reconnecting'; attempt: number; delayMs: number; error?: unknown }
+  | { type: 'reconnected'; attempt: number };
+
+export interface ConnectionManagerOptions {
+  createProvider: () => TranslationProvider;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Upper bound on audio kept for replay while disconnected. */
+  maxBufferMs?: number;
+}
+
+export interface ConnectionManager extends Omit<TranslationProvider, 'connect'> {
+  connect(config: TranslationSessionConfig, onEvent: (event: ConnectionEvent) => void): Promise<void>;
+}
+
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+
+export function createConnectionManager(options: ConnectionManagerOptions): ConnectionManager {
+  const { createProvider, maxAttempts = 8, baseDelayMs = 500, maxDelayMs = 15000, maxBufferMs = 30000 } = options;
+
+  let provider: TranslationProvider | null = null;
+  let name = '';
+  let generation = 0;
+  let connected = false;
+  let hasOpened = false;
+  let closed = false;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let resumeHandle: string | undefined;
+  let sessionConfig: TranslationSessionConfig | null = null;
+  let emit: (event: ConnectionEvent) => void = () => {};
+  let buffer: { pcm: Int16Array; sampleRate: number }[] = [];
+  let bufferedMs = 0;
+
+  const bufferFrame = (pcm: Int16Array, sampleRate: number) => {
+    buffer.push({ pcm, sampleRate });
+    bufferedMs += pcm.length / sampleRate * 1000;
+    while (buffer.length > 0 && bufferedMs > maxBufferMs) {
+      const dropped = buffer.shift()!;
+      bufferedMs -= dropped.pcm.length / dropped.sampleRate * 1000;
+    }
+  };
+
+  const replayBuffer = () => {
+    const frames = buffer;
+    buffer = [];
+    bufferedMs = 0;
+    frames.forEach(({ pcm, sampleRate }) => provider?.sendAudio(pcm, sampleRate));
+  };
+
+  const scheduleReconnect = (error?: unknown) => {
+    if (closed) return;
+    attempt++;
+    if (attempt > maxAttempts) {
+      closed = true;
+      emit({ type: 'error', error: new Error(`Reconnection failed after ${maxAttempts} attempts`) });
+      emit({ type: 'close' });
+      return;
+    }
+    const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    emit({ type: 'reconnecting', attempt, delayMs, error });
+    timer = setTimeout(() => {
+      timer = null;
+      open().catch(err => handleDrop(generation)(err));
+    }, delayMs);
+  };
+
+  const handleDrop = (gen: number) => (error?: unknown) => {
+    if (closed || gen !== generation) return;
+    // Before the first open there is nothing to resume: report the failure as is
+    if (!hasOpened) {
+      closed = true;
+      emit({ type: 'error', error });
+      emit({ type: 'close' });
+      return;
+    }
+    connected = false;
+    generation++;
+    try { provider?.close(); } catch (e) {}
+    provider = null;
+    scheduleReconnect(error);
+  };
+
+  const open = async () => {
+    if (!sessionConfig) return;
+    const gen = ++generation;
+    const next = createProvider();
+    provider = next;
+    name = next.name;
+    await next.connect({ ...sessionConfig, resumeHandle }, (event) => {
+      if (closed || gen !== generation) return;
+      switch (event.type) {
+        case 'open':
+          connected = true;
+          if (!hasOpened) {
+            hasOpened = true;
+            emit(event);
+          } else {
+            emit({ type: 'reconnected', attempt });
+          }
+          attempt = 0;
+          replayBuffer();
+          break;
+        case 'resumable':
+          resumeHandle = event.handle;
+          emit(event);
+          break;
+        case 'error':
+          handleDrop(gen)(event.error);
+          break;
+        case 'close':
+          handleDrop(gen)();
+          break;
+        default:
+          emit(event);
+      }
+    });
+  };
+
+  return {
+    get name() { return name; },
+
+    async connect(config: TranslationSessionConfig, onEvent: (event: ConnectionEvent) => void) {
+      sessionConfig = config;
+      emit = onEvent;
+      closed = false;
+      hasOpened = false;
+      attempt = 0;
+      resumeHandle = config.resumeHandle;
+      await open();
+    },
+
+    sendAudio(pcm: Int16Array, sampleRate: number) {
+      if (closed) return;
+      if (connected && provider) provider.sendAudio(pcm, sampleRate);
+      else if (hasOpened) bufferFrame(pcm, sampleRate);
+    },
+
+    endAudioStream() {
+      if (connected && provider) provider.endAudioStream();
+    },
+
+    close() {
+      closed = true;
+      connected = false;
+      if (timer) { clearTimeout(timer); timer = null; }
+      buffer = [];
+      bufferedMs = 0;
+      try { provider?.close(); } catch (e) {}
+      provider = null;
+    }
+  };
+}
@@ -0,0 +1,173 @@
+import { GoogleGenAI } from '@google/genai';
+import { CONTEXT_INSTRUCTION, CONTEXT_MODEL } from '../constants';
+import { ContextDocument, ContextDocumentKind, LanguagePair, LectureContext } from '../types';
+import { languageName } from './languageService';
+import { CITATION_PATTERN } from './notesService';
+import { ProviderKind, resolveProviderKind } from './translationProvider';
+
+/**
+ * Lecture context priming. Slide text, syllabi and reading lists for the day's topic are
+ * kept with the session and condensed into a short terminology brief ("digest"), which is
+ * appended to the live system instruction so names and field terms are heard correctly.
+ */
+
+/**
+ * Upper bound for the digest. The live instruction is resent on every connection, and a
+ * long one slows the first response and dilutes the role rules.
+ */
+export const CONTEXT_BUDGET_CHARS = 4000;
+
+/** Material beyond this per document is not sent for condensing. */
+const MAX_DOCUMENT_CHARS = 60000;
+
+export const CONTEXT_ACCEPT = '.txt,.md,.csv,.pdf,text/plain,text/markdown,text/csv,application/pdf';
+
+export const CONTEXT_KINDS: { kind: ContextDocumentKind; label: string }[] = [
+  { kind: 'slides', label: 'Slides' },
+  { kind: 'syllabus', label: 'Syllabus' },
+  { kind: 'readings', label: 'Reading list' },
+  { kind: 'notes', label: 'Notes' }
+];
+
+export const emptyContext = (): LectureContext => ({ documents: [], digest: '', digestSourceIds: [] });
+
+export const createContextDocument = (name: string, kind: ContextDocumentKind, text: string): ContextDocument => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: name.trim() || 'Untitled',
+  kind,
+  text: text.trim(),
+  addedAt: Date.now()
+});
+
+/** Cuts text to `budget` characters, at a line break where possible. */
+export function fitToBudget(text: string, budget: number = CONTEXT_BUDGET_CHARS): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= budget) return trimmed;
+  const cut = trimmed.slice(0, budget);
+  const lineEnd = cut.lastIndexOf('\n');
+  return (lineEnd > budget / 2 ? cut.slice(0, lineEnd) : cut).trim();
+}
+
+/** The digest as sent to the translator. */
+export const contextDigest = (context: LectureContext | undefined) => fitToBudget(context?.digest ?? '');
+
+/** True when documents were added or removed since the digest was condensed. */
+export function isDigestStale(context: LectureContext | undefined): boolean {
+  if (!context || context.documents.length === 0) return false;
+  const ids = context.documents.map(d => d.id);
+  return ids.length !== context.digestSourceIds.length || ids.some(id => !context.digestSourceIds.includes(id));
+}
+
+/** Condenses lecture material into a digest that fits the budget. */
+export interface ContextCondenser {
+  name: string;
+  condense(documents: ContextDocument[], pair: LanguagePair): Promise<string>;
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+export function formatDocumentsForCondensing(documents: ContextDocument[], pair: LanguagePair): string {
+  const kinds = Object.fromEntries(CONTEXT_KINDS.map(k => [k.kind, k.label]));
+  return [
+    `Classroom languages: ${languageName(pair.lecturer)} (lecturer) and ${languageName(pair.students)} (students).`,
+    `Character budget: ${CONTEXT_BUDGET_CHARS}.`,
+    ...documents.map(d => `=== ${kinds[d.kind]}: ${d.name} ===\n${d.text.slice(0, MAX_DOCUMENT_CHARS)}`)
+  ].join('\n\n');
+}
+
+export function createGeminiContextCondenser(apiKey: string | undefined = process.env.API_KEY): ContextCondenser {
+  return {
+    name: 'Gemini',
+    async condense(documents, pair) {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: CONTEXT_MODEL,
+        contents: formatDocumentsForCondensing(documents, pair),
+        config: { systemInstruction: CONTEXT_INSTRUCTION }
+      });
+      if (!response.text?.trim()) throw new Error('The model returned no digest');
+      return fitToBudget(response.text);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Offline stub
+// ---------------------------------------------------------------------------
+
+// Capitalized multi-word names, e.g. "Pierre Bourdieu", "Grounded Theory"
+const NAME_PATTERN = /\b[A-Z][a-z]+(?:\s(?:de\s|van\s|von\s)?[A-Z][a-z]+)+\b/g;
+const ACRONYM_PATTERN = /\b[A-Z]{2,6}\b/g;
+const HEADING_PATTERN = /^(?:#{1,6}\s+|\d+[.)]\s+|[-*•]\s+)?(.{3,80})$/;
+
+/**
+ * Heuristic digest from the material alone: document titles and short heading-like
+ * lines as the topic, then citations, names and acronyms.
+ */
+export function createStubContextCondenser(): ContextCondenser {
+  return {
+    name: 'Offline draft',
+    async condense(documents) {
+      const collect = (pattern: RegExp) => {
+        const found = new Set<string>();
+        documents.forEach(d => d.text.match(pattern)?.forEach(m => found.add(m.trim())));
+        return Array.from(found);
+      };
+      const headings = new Set<string>();
+      documents.forEach(d => d.text.split('\n').slice(0, 40).forEach(line => {
+        const match = line.trim().match(HEADING_PATTERN);
+        if (match && line.trim().length <= 60) headings.add(match[1].trim());
+      }));
+      const citations = collect(CITATION_PATTERN);
+      const names = collect(NAME_PATTERN).filter(n => !citations.some(c => c.includes(n)));
+      const sections = [
+        `TOPIC: ${documents.map(d => d.name).join('; ')}`,
+        headings.size > 0 && `HEADINGS:\n${Array.from(headings).slice(0, 15).join('\n')}`,
+        citations.length > 0 && `TITLES:\n${citations.join('\n')}`,
+        names.length > 0 && `PEOPLE AND AUTHORS:\n${names.join('\n')}`,
+        `TERMS:\n${collect(ACRONYM_PATTERN).join('\n')}`
+      ];
+      return fitToBudget(sections.filter(s => s && !s.endsWith(':\n')).join('\n\n'));
+    }
+  };
+}
+
+export function createContextCondenser(kind: ProviderKind = resolveProviderKind()): ContextCondenser {
+  return kind === 'mock' ? createStubContextCondenser() : createGeminiContextCondenser();
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/**
+ * Plain text of an uploaded document. Text files are read directly; PDFs are transcribed
+ * by Gemini, which also copes with scanned slides, so they need the online backend.
+ */
+export async function readContextFile(file: File, kind: ProviderKind = resolveProviderKind()): Promise<string> {
+  if (!isPdf(file)) return (await file.text()).trim();
+  if (kind === 'mock') throw new Error('การอ่านไฟล์ PDF ต้องใช้การเชื่อมต่อกับ Gemini กรุณาวางข้อความแทน');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+    model: CONTEXT_MODEL,
+    contents: [{
+      parts: [
+        { inlineData: { mimeType: 'application/pdf', data: toBase64(await file.arrayBuffer()) } },
+        { text: 'Transcribe all text in this document as plain text, page by page. Output the text only.' }
+      ]
+    }]
+  });
+  if (!response.text?.trim()) throw new Error('The model returned no text');
+  return response.text.trim();
+}
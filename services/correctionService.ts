@@ -0,0 +1,121 @@
+import { GoogleGenAI } from '@google/genai';
+import { getRetranslateInstruction, getTypedMessageInstruction, RETRANSLATE_MODEL } from '../constants';
+import { GlossaryTerm, LanguageId, LanguagePair, RevisionReason, TranscriptEntry } from '../types';
+import { DEFAULT_PAIR_ID, findLanguagePair, getLanguagePair, languageName, pairLanguages, targetLanguage } from './languageService';
+import { DEFAULT_MOCK_SCRIPT } from './mockProvider';
+import { ProviderKind, resolveProviderKind } from './translationProvider';
+
+// ---------------------------------------------------------------------------
+// Revisions
+// ---------------------------------------------------------------------------
+
+/** Older versions beyond this are dropped so a much-corrected entry stays small. */
+export const MAX_REVISIONS = 20;
+
+export const isEdited = (entry: TranscriptEntry) => Boolean(entry.revisions?.length);
+
+export const lastEditedAt = (entry: TranscriptEntry) => entry.revisions?.[entry.revisions.length - 1]?.editedAt ?? null;
+
+/**
+ * Applies a correction, keeping the current text and translation as a revision so it
+ * can be undone. Returns the entry unchanged when nothing actually changed.
+ */
+export function reviseEntry(entry: TranscriptEntry, patch: Partial<Pick<TranscriptEntry, 'text' | 'translation'>>, reason: RevisionReason): TranscriptEntry {
+  const text = patch.text ?? entry.text;
+  const translation = patch.translation ?? entry.translation;
+  if (text === entry.text && translation === entry.translation) return entry;
+  const revision = { text: entry.text, translation: entry.translation, editedAt: Date.now(), reason };
+  return { ...entry, text, translation, revisions: [...(entry.revisions ?? []), revision].slice(-MAX_REVISIONS) };
+}
+
+/** Restores the version before the latest correction. */
+export function undoRevision(entry: TranscriptEntry): TranscriptEntry {
+  const revisions = entry.revisions ?? [];
+  if (revisions.length === 0) return entry;
+  const previous = revisions[revisions.length - 1];
+  const { revisions: _all, ...rest } = entry;
+  const remaining = revisions.slice(0, -1);
+  return { ...rest, text: previous.text, translation: previous.translation, ...(remaining.length > 0 ? { revisions: remaining } : {}) };
+}
+
+// ---------------------------------------------------------------------------
+// Re-translation
+// ---------------------------------------------------------------------------
+
+/**
+ * The language pair an entry was recorded in. Entries from before language pairs carry
+ * no `targetLang` and were Thai/Chinese unless the current pair says otherwise.
+ */
+export function entryLanguagePair(entry: TranscriptEntry, current: LanguagePair): LanguagePair {
+  if (entry.targetLang) return findLanguagePair(entry.sourceLang, entry.targetLang) ?? current;
+  return pairLanguages(current).includes(entry.sourceLang) ? current : getLanguagePair(DEFAULT_PAIR_ID);
+}
+
+export const entryTargetLanguage = (entry: TranscriptEntry, current: LanguagePair) =>
+  entry.targetLang ?? targetLanguage(entry.sourceLang, entryLanguagePair(entry, current));
+
+export interface RetranslateRequest {
+  text: string;
+  sourceLang: LanguageId;
+  targetLang: LanguageId;
+  /** The translator instruction of the session's language pair and level. */
+  instruction: string;
+  glossary?: GlossaryTerm[];
+  /** A message typed in the composer rather than a corrected transcript. */
+  typed?: boolean;
+  /** The session's lecture context digest. */
+  context?: string;
+}
+
+/**
+ * Translates one corrected turn, or one typed message, as text. Gemini is used in the app; the stub works
+ * offline for demos.
+ */
+export interface TextTranslator {
+  name: string;
+  translate(request: RetranslateRequest): Promise<string>;
+}
+
+export function createGeminiTextTranslator(apiKey: string | undefined = process.env.API_KEY): TextTranslator {
+  return {
+    name: 'Gemini',
+    async translate({ text, sourceLang, targetLang, instruction, glossary = [], typed, context }: RetranslateRequest) {
+      const ai = new GoogleGenAI({ apiKey });
+      const buildInstruction = typed ? getTypedMessageInstruction : getRetranslateInstruction;
+      const response = await ai.models.generateContent({
+        model: RETRANSLATE_MODEL,
+        contents: text,
+        config: { systemInstruction: buildInstruction(sourceLang, targetLang, instruction, glossary, context) }
+      });
+      const translation = response.text?.trim();
+      if (!translation) throw new Error('The model returned no translation');
+      return translation;
+    }
+  };
+}
+
+/**
+ * Offline stand-in: replays the demo script when the text matches one of its turns,
+ * otherwise swaps in glossary terms and tags the text with the target language.
+ */
+export function createStubTextTranslator(): TextTranslator {
+  return {
+    name: 'Offline demo',
+    async translate({ text, sourceLang, targetLang, glossary = [] }: RetranslateRequest) {
+      const input = text.trim();
+      const scripted = DEFAULT_MOCK_SCRIPT.find(turn => turn.input === input);
+      if (scripted) return scripted.output;
+      let output = input;
+      glossary.forEach(term => {
+        const from = term.text[sourceLang]?.trim();
+        const to = term.text[targetLang]?.trim();
+        if (from && to) output = output.split(from).join(to);
+      });
+      return `[${languageName(targetLang)}] ${output}`;
+    }
+  };
+}
+
+export function createTextTranslator(kind: ProviderKind = resolveProviderKind()): TextTranslator {
+  return kind === 'mock' ? createStubTextTranslator() : createGeminiTextTranslator();
+}
@@ -0,0 +1,255 @@
+import { LectureNotes, LectureSession, TranscriptEntry } from '../types';
+import { formatNoteTerm, NOTE_SECTIONS } from './notesService';
+import { isEdited } from './correctionService';
+import { highlightInfo, isMarked, markLabels, outlineTitle } from './annotationService';
+
+export type SubtitleTrack = 'source' | 'target' | 'dual';
+
+type SessionMeta = Omit<LectureSession, 'entries'>;
+
+export interface EntryTiming {
+  /** Offsets from the session start, in milliseconds. */
+  start: number;
+  end: number;
+}
+
+const MIN_CUE_MS = 1200;
+// Rough reading/speaking pace used when an entry predates per-turn start times
+const MS_PER_CHAR = 180;
+
+/**
+ * Computes subtitle spans for each entry relative to `sessionStart`. Entries without a
+ * recorded `startedAt` get a duration estimated from their text length, never starting
+ * before the previous cue ends.
+ */
+export function computeTimings(entries: TranscriptEntry[], sessionStart: number = entries[0]?.startedAt ?? entries[0]?.timestamp ?? 0): EntryTiming[] {
+  let previousEnd = 0;
+  return entries.map(entry => {
+    const end = Math.max(entry.timestamp - sessionStart, previousEnd + MIN_CUE_MS);
+    const estimated = end - Math.max(MIN_CUE_MS, Array.from(entry.text).length * MS_PER_CHAR);
+    const start = Math.max(previousEnd, entry.startedAt !== undefined ? entry.startedAt - sessionStart : estimated, 0);
+    previousEnd = end;
+    return { start, end: Math.max(end, start + MIN_CUE_MS) };
+  });
+}
+
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+// A blank line ends a cue, so paragraphs within a turn are joined line by line
+const cueText = (entry: TranscriptEntry, track: SubtitleTrack) => {
+  const lines = (text: string) => text.trim().replace(/\n\s*\n/g, '\n');
+  if (track === 'source') return lines(entry.text);
+  if (track === 'target') return lines(entry.translation);
+  return [lines(entry.text), lines(entry.translation)].filter(Boolean).join('\n');
+};
+
+const srtMarker = (entry: TranscriptEntry) => `${entry.bookmarked ? '🔖' : ''}${entry.starred ? '★' : ''}`;
+
+// SRT has no comments, so marks lead the cue text and the note follows it on its own line
+const srtCueText = (entry: TranscriptEntry, text: string) => [
+  [
+    srtMarker(entry),
+    entry.highlight && `[${highlightInfo(entry.highlight)?.label ?? entry.highlight}]`,
+    isEdited(entry) && '[edited]',
+    text
+  ].filter(Boolean).join(' '),
+  entry.annotation?.trim() && `[note: ${entry.annotation.trim().replace(/\s*\n\s*/g, ' ')}]`
+].filter(Boolean).join('\n');
+
+// VTT cue text is parsed for tags and character references, which also keeps out the cue arrow
+const escapeVtt = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// VTT comments may not contain blank lines or the cue arrow
+const vttNotes = (entry: TranscriptEntry) => [
+  entry.typed && 'typed',
+  isEdited(entry) && 'edited',
+  ...markLabels(entry),
+  entry.annotation?.trim() && `annotation: ${entry.annotation.trim().replace(/\n+/g, ' ').replace(/-->/g, '->')}`
+].filter(Boolean).map(note => `NOTE ${note}\n\n`).join('');
+
+export function toSrt(entries: TranscriptEntry[], track: SubtitleTrack, sessionStart?: number): string {
+  const timings = computeTimings(entries, sessionStart);
+  return entries
+    .map((entry, i) => ({ entry, text: cueText(entry, track), timing: timings[i] }))
+    .filter(cue => cue.text)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.timing.start, ',')} --> ${formatCueTime(cue.timing.end, ',')}\n${srtCueText(cue.entry, cue.text)}\n`)
+    .join('\n');
+}
+
+export function toVtt(entries: TranscriptEntry[], track: SubtitleTrack, sessionStart?: number): string {
+  const timings = computeTimings(entries, sessionStart);
+  const cues = entries
+    .map((entry, i) => ({ entry, text: cueText(entry, track), timing: timings[i] }))
+    .filter(cue => cue.text)
+    .map(cue => `${vttNotes(cue.entry)}${cue.entry.id}\n${formatCueTime(cue.timing.start, '.')} --> ${formatCueTime(cue.timing.end, '.')}\n<v ${cue.entry.role}>${escapeVtt(cue.text)}\n`);
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+/** Position in the recording for sessions translated from a file, otherwise the time of day. */
+const entryTime = (entry: TranscriptEntry, session: SessionMeta | null | undefined, clock: () => string) =>
+  session?.mediaFile ? formatCueTime((entry.startedAt ?? entry.timestamp) - session.startedAt, '.').slice(0, 8) : clock();
+
+export function toPlainText(entries: TranscriptEntry[], session?: SessionMeta | null): string {
+  return entries.map(t => {
+    const flags = [t.typed && 'typed', isEdited(t) && 'edited', ...markLabels(t)].filter(Boolean).map(flag => ` (${flag})`).join('');
+    const note = t.annotation?.trim() ? `Note: ${t.annotation.trim()}\n` : '';
+    return `[${entryTime(t, session, () => new Date(t.timestamp).toLocaleTimeString())}] ${t.role}${flags}\nSource: ${t.text}\nTrans: ${t.translation}\n${note}`;
+  }).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Lossless JSON
+// ---------------------------------------------------------------------------
+
+export const TRANSCRIPT_FORMAT = 'livetrans-transcript';
+export const TRANSCRIPT_FORMAT_VERSION = 1;
+
+export interface TranscriptDocument {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: SessionMeta | null;
+  entries: TranscriptEntry[];
+}
+
+export function toTranscriptJson(session: SessionMeta | null, entries: TranscriptEntry[]): string {
+  const doc: TranscriptDocument = { format: TRANSCRIPT_FORMAT, version: TRANSCRIPT_FORMAT_VERSION, exportedAt: Date.now(), session, entries };
+  return JSON.stringify(doc, null, 2);
+}
+
+const isEntry = (value: unknown): value is TranscriptEntry =>
+  typeof value === 'object' && value !== null
+  && 'id' in value && typeof value.id === 'string'
+  && 'timestamp' in value && typeof value.timestamp === 'number'
+  && 'text' in value && typeof value.text === 'string'
+  && 'translation' in value && typeof value.translation === 'string'
+  && 'sourceLang' in value && typeof value.sourceLang === 'string'
+  && 'role' in value && typeof value.role === 'string';
+
+/**
+ * Reads a file written by `toTranscriptJson`; a bare `TranscriptEntry[]` array (the old
+ * localStorage history format) is accepted as well.
+ */
+export function parseTranscriptJson(text: string): Pick<TranscriptDocument, 'session' | 'entries'> {
+  const data = JSON.parse(text);
+  const entries = Array.isArray(data) ? data : data?.entries;
+  if (!Array.isArray(data) && data?.format !== TRANSCRIPT_FORMAT) throw new Error('Not a LiveTrans transcript file');
+  if (!Array.isArray(entries) || !entries.every(isEntry)) throw new Error('Transcript entries are malformed');
+  if (!Array.isArray(data) && data.version > TRANSCRIPT_FORMAT_VERSION) throw new Error(`Unsupported transcript version ${data.version}`);
+  return { session: Array.isArray(data) ? null : data.session ?? null, entries };
+}
+
+// ---------------------------------------------------------------------------
+// Bilingual HTML (Word-compatible document and print view)
+// ---------------------------------------------------------------------------
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const roleLabel = (entry: TranscriptEntry) => entry.role === 'Professor' ? 'Teacher' : 'Student';
+
+const htmlTime = (entry: TranscriptEntry, session: SessionMeta | null) =>
+  entryTime(entry, session, () => new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+
+// Marked turns listed before the transcript, linking to their rows
+const outlineHtml = (entries: TranscriptEntry[], session: SessionMeta | null) => {
+  const marked = entries.filter(isMarked);
+  if (marked.length === 0) return '';
+  const items = marked.map(entry => `<li><a href="#entry-${escapeHtml(entry.id)}">${escapeHtml(htmlTime(entry, session))}</a> ${srtMarker(entry)} ${escapeHtml(outlineTitle(entry))}</li>`);
+  return `
+  <div class="outline">
+    <h2>Bookmarks</h2>
+    <ul>${items.join('')}</ul>
+  </div>`;
+};
+
+const notesHtml = (notes: LectureNotes) => {
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+  const sections = NOTE_SECTIONS
+    .filter(({ key }) => notes[key].length > 0)
+    .map(({ key, title }) => `<h3>${escapeHtml(title)}</h3>${list(notes[key].map(p => `${escapeHtml(p.lecturer)}<br/><span class="students">${escapeHtml(p.students)}</span>`))}`);
+  if (notes.readings.length > 0) sections.push(`<h3>Readings</h3>${list(notes.readings.map(escapeHtml))}`);
+  if (notes.keyTerms.length > 0) sections.push(`<h3>Key terms</h3>${list(notes.keyTerms.map(t => escapeHtml(formatNoteTerm(t))))}`);
+  return `
+  <div class="notes">
+    <h2>Lecture notes</h2>
+    <p>${escapeHtml(notes.summary.lecturer)}</p>
+    <p class="students">${escapeHtml(notes.summary.students)}</p>
+    ${sections.join('\n    ')}
+  </div>`;
+};
+
+/**
+ * Two-column bilingual handout, preceded by the lecture notes when there are any. Plain tables and inline styles so Word opens it as a
+ * document and browsers print it cleanly on A4.
+ */
+export function toBilingualHtml(session: SessionMeta | null, entries: TranscriptEntry[], options: { autoPrint?: boolean } = {}): string {
+  const title = session?.name || 'LiveTrans Session';
+  const details = [
+    session?.course,
+    session ? new Date(session.startedAt).toLocaleString() : '',
+    session?.participants,
+    session?.mediaFile && `Translated from ${session.mediaFile}`
+  ].filter(Boolean).map(d => escapeHtml(d as string)).join(' &middot; ');
+  const rows = entries.map(entry => {
+    const highlight = highlightInfo(entry.highlight);
+    const marks = [entry.bookmarked && 'bookmark', entry.starred && 'starred'].filter(Boolean).map(mark => `<br/><span class="mark">${mark}</span>`).join('');
+    return `
+      <tr id="entry-${escapeHtml(entry.id)}"${highlight ? ` style="background: ${highlight.hex};"` : ''}>
+        <td class="meta">${escapeHtml(htmlTime(entry, session))}<br/>${roleLabel(entry)}${entry.typed ? '<br/><span class="typed">typed</span>' : ''}${isEdited(entry) ? '<br/><span class="edited">edited</span>' : ''}${marks}</td>
+        <td>${escapeHtml(entry.text)}${entry.annotation?.trim() ? `<p class="annotation">Note: ${escapeHtml(entry.annotation.trim())}</p>` : ''}</td>
+        <td class="target">${escapeHtml(entry.translation)}</td>
+      </tr>`;
+  }).join('');
+  return `<!DOCTYPE html>
+<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 18mm; }
+  body { font-family: 'Sarabun', 'Noto Sans Thai', 'Noto Sans SC', 'Microsoft YaHei', sans-serif; color: #0f172a; font-size: 11pt; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  p.details { color: #64748b; margin: 0 0 14pt; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 9pt; text-transform: uppercase; letter-spacing: 1px; color: #64748b; border-bottom: 2px solid #0f172a; padding: 6pt; }
+  td { vertical-align: top; border-bottom: 1px solid #e2e8f0; padding: 8pt 6pt; line-height: 1.6; }
+  td.meta { width: 14%; font-size: 9pt; color: #64748b; }
+  td.target { font-weight: bold; }
+  span.edited { color: #d97706; font-size: 8pt; text-transform: uppercase; }
+  span.typed { color: #0d9488; font-size: 8pt; text-transform: uppercase; }
+  span.mark { color: #e11d48; font-size: 8pt; text-transform: uppercase; }
+  p.annotation { margin: 6pt 0 0; padding-left: 6pt; border-left: 2px solid #e11d48; font-size: 9pt; font-style: italic; color: #475569; white-space: pre-wrap; }
+  div.outline { margin-bottom: 16pt; }
+  div.outline h2 { font-size: 12pt; margin: 0 0 4pt; }
+  div.outline li { margin-bottom: 2pt; }
+  tr { page-break-inside: avoid; }
+  div.notes { border: 1px solid #e2e8f0; padding: 10pt 14pt; margin-bottom: 16pt; }
+  div.notes h2 { font-size: 14pt; margin: 0 0 6pt; }
+  div.notes h3 { font-size: 11pt; margin: 10pt 0 4pt; }
+  div.notes li { margin-bottom: 4pt; line-height: 1.5; }
+  .students { color: #334155; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${details ? `<p class="details">${details}</p>` : ''}
+  ${session?.notes ? notesHtml(session.notes) : ''}
+  ${outlineHtml(entries, session)}
+  <table>
+    <thead><tr><th></th><th>Source</th><th>Translation</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  ${options.autoPrint ? '<script>window.addEventListener("load", () => window.print());</script>' : ''}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,13 @@
+/**
+ * Triggers a browser download of generated content.
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string = 'text/plain') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a'); a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const readFileAsText = (file: File): Promise<string> => file.text();
+
+export const safeFilename = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_') || 'untitled';
@@ -0,0 +1,78 @@
+import { GoogleGenAI, Modality, LiveServerMessage, Session } from '@google/genai';
+import { GEMINI_MODEL } from '../constants';
+import { encodeAudio, decodeAudio } from './audioService';
+import { TranslationEventHandler, TranslationProvider, TranslationSessionConfig } from './translationProvider';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Translates the Gemini Live wire messages into provider events.
+ */
+export function parseLiveMessage(msg: LiveServerMessage, emit: TranslationEventHandler) {
+  const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+  if (audioData) emit({ type: 'audio', data: decodeAudio(audioData), sampleRate: OUTPUT_SAMPLE_RATE });
+  if (msg.serverContent?.inputTranscription?.text) emit({ type: 'inputText', text: msg.serverContent.inputTranscription.text });
+  if (msg.serverContent?.outputTranscription?.text) emit({ type: 'outputText', text: msg.serverContent.outputTranscription.text });
+  if (msg.serverContent?.turnComplete) emit({ type: 'turnComplete' });
+  if (msg.serverContent?.interrupted) emit({ type: 'interrupted' });
+  if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+    emit({ type: 'resumable', handle: msg.sessionResumptionUpdate.newHandle });
+  }
+}
+
+export function createGeminiProvider(apiKey: string | undefined = process.env.API_KEY): TranslationProvider {
+  let sessionPromise: Promise<Session> | null = null;
+  let closed = false;
+
+  return {
+    name: 'Gemini Live',
+
+    async connect(config: TranslationSessionConfig, onEvent: TranslationEventHandler) {
+      closed = false;
+      const emit: TranslationEventHandler = (event) => { if (!closed) onEvent(event); };
+      const ai = new GoogleGenAI({ apiKey });
+      sessionPromise = ai.live.connect({
+        model: GEMINI_MODEL,
+        config: {
+          systemInstruction: config.systemInstruction,
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          sessionResumption: { handle: config.resumeHandle },
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } }
+          }
+        },
+        callbacks: {
+          onopen: () => emit({ type: 'open' }),
+          onmessage: (msg: LiveServerMessage) => parseLiveMessage(msg, emit),
+          onerror: (err) => emit({ type: 'error', error: err }),
+          onclose: () => emit({ type: 'close' })
+        }
+      });
+      const session = await sessionPromise;
+      if (closed) { try { session.close(); } catch (e) {} }
+    },
+
+    sendAudio(pcm: Int16Array, sampleRate: number) {
+      if (!sessionPromise || closed) return;
+      const data = encodeAudio(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength));
+      sessionPromise.then(session => {
+        if (!closed) session.sendRealtimeInput({ media: { data, mimeType: `audio/pcm;rate=${sampleRate}` } });
+      }).catch(() => {});
+    },
+
+    endAudioStream() {
+      if (!sessionPromise || closed) return;
+      sessionPromise.then(session => {
+        if (!closed) session.sendRealtimeInput({ audioStreamEnd: true });
+      }).catch(() => {});
+    },
+
+    close() {
+      closed = true;
+      sessionPromise?.then(session => { try { session.close(); } catch (e) {} }).catch(() => {});
+      sessionPromise = null;
+    }
+  };
+}
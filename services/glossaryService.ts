@@ -0,0 +1,224 @@
+import { Glossary, GlossaryTerm, LanguageId } from '../types';
+import { LANGUAGES } from './languageService';
+
+const STORAGE_KEY = 'edutranslate_glossaries';
+const ACTIVE_KEY = 'edutranslate_active_glossary';
+
+export const createGlossaryId = () => Math.random().toString(36).substr(2, 9);
+
+export function createGlossary(course: string, terms: GlossaryTerm[] = []): Glossary {
+  return { id: createGlossaryId(), course, terms, updatedAt: Date.now() };
+}
+
+/** Language forms of `term` that are filled in. */
+export const termLanguages = (term: GlossaryTerm): LanguageId[] =>
+  Object.keys(term.text).filter(lang => term.text[lang]?.trim());
+
+export const hasLanguages = (term: GlossaryTerm, languages: LanguageId[]) => languages.every(lang => term.text[lang]?.trim());
+
+/** Languages used anywhere in `terms`, in registry order. */
+export const glossaryLanguages = (terms: GlossaryTerm[]): LanguageId[] => {
+  const used = new Set(terms.flatMap(termLanguages));
+  return [...Object.keys(LANGUAGES).filter(lang => used.has(lang)), ...Array.from(used).filter(lang => !LANGUAGES[lang])];
+};
+
+// Terms saved before language pairs had fixed thai/chinese/english fields
+type LegacyTerm = Partial<GlossaryTerm> & { thai?: string; chinese?: string; english?: string };
+
+const upgradeTerm = ({ thai, chinese, english, ...term }: LegacyTerm): GlossaryTerm => ({
+  id: term.id ?? createGlossaryId(),
+  text: term.text ?? Object.fromEntries(([['Thai', thai], ['Chinese', chinese], ['English', english]] as const).filter(([, value]) => value)),
+  ...(term.note ? { note: term.note } : {})
+});
+
+export function loadGlossaries(): Glossary[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const glossaries: Glossary[] = saved ? JSON.parse(saved) : [];
+    return glossaries.map(g => ({ ...g, terms: g.terms.map(upgradeTerm) }));
+  } catch (e) { return []; }
+}
+
+export function saveGlossaries(glossaries: Glossary[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+}
+
+export const loadActiveGlossaryId = () => localStorage.getItem(ACTIVE_KEY);
+
+export function saveActiveGlossaryId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+}
+
+// ---------------------------------------------------------------------------
+// CSV (RFC 4180) — one column per language (thai, chinese, english, …), then note
+// ---------------------------------------------------------------------------
+
+type CsvColumn = LanguageId | 'note';
+
+// Headers may name a language in English, by its code or in the language itself
+const CSV_COLUMNS: Record<string, CsvColumn> = {
+  ...Object.fromEntries(Object.values(LANGUAGES).flatMap(({ id, code, nativeName }) =>
+    [id, code, code.split('-')[0], nativeName].map(name => [name.toLowerCase(), id]))),
+  note: 'note', notes: 'note'
+};
+
+// Files without a header row use the original glossary layout
+const DEFAULT_CSV_COLUMNS: CsvColumn[] = ['Thai', 'Chinese', 'English', 'note'];
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+  return rows;
+}
+
+const escapeCsv = (value: string = '') => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function glossaryToCsv(terms: GlossaryTerm[]): string {
+  const languages = glossaryLanguages(terms);
+  const lines = [[...languages.map(lang => lang.toLowerCase()), 'note'].join(',')];
+  terms.forEach(t => lines.push([...languages.map(lang => t.text[lang]), t.note].map(escapeCsv).join(',')));
+  // BOM so spreadsheet software opens Thai/Chinese text as UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function csvToTerms(text: string): GlossaryTerm[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(h => CSV_COLUMNS[h.trim().toLowerCase()]);
+  const hasHeader = header.some(Boolean);
+  const columns = hasHeader ? header : DEFAULT_CSV_COLUMNS;
+  return (hasHeader ? rows.slice(1) : rows)
+    .map(row => {
+      const term: GlossaryTerm = { id: createGlossaryId(), text: {} };
+      row.forEach((cell, i) => {
+        const column = columns[i];
+        if (!column || !cell.trim()) return;
+        if (column === 'note') term.note = cell.trim();
+        else term.text[column] = cell.trim();
+      });
+      return term;
+    })
+    .filter(t => termLanguages(t).length > 0);
+}
+
+// ---------------------------------------------------------------------------
+// TBX (ISO 30042) — writes TBX-Basic, reads both TBX v3 and legacy martif files
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Base language codes (zh rather than zh-CN), as most terminology tools write them
+const TBX_LANGS: [LanguageId, string][] = Object.values(LANGUAGES).map(({ id, code }) => [id, code.split('-')[0].toLowerCase()]);
+
+export function glossaryToTbx(glossary: Glossary): string {
+  const entries = glossary.terms.map(t => {
+    const langSecs = TBX_LANGS
+      .filter(([lang]) => t.text[lang])
+      .map(([lang, code]) => `        <langSec xml:lang="${code}"><termSec><term>${escapeXml(t.text[lang])}</term></termSec></langSec>`)
+      .join('\n');
+    const note = t.note ? `        <descrip type="definition">${escapeXml(t.note)}</descrip>\n` : '';
+    return `      <conceptEntry id="${escapeXml(t.id)}">\n${note}${langSecs}\n      </conceptEntry>`;
+  }).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <tbxHeader>
+    <fileDesc>
+      <titleStmt><title>${escapeXml(glossary.course)}</title></titleStmt>
+      <sourceDesc><p>LiveTrans by Dr.Pat</p></sourceDesc>
+    </fileDesc>
+  </tbxHeader>
+  <text>
+    <body>
+${entries}
+    </body>
+  </text>
+</tbx>
+`;
+}
+
+const byLocalName = (root: Element | Document, ...names: string[]) =>
+  Array.from(root.getElementsByTagName('*')).filter(el => names.includes(el.localName));
+
+export function tbxToGlossary(xml: string, fallbackCourse: string = 'Imported glossary'): Glossary {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid TBX file');
+  const title = byLocalName(doc, 'title')[0]?.textContent?.trim();
+  const terms = byLocalName(doc, 'conceptEntry', 'termEntry').map(entry => {
+    const term: GlossaryTerm = { id: createGlossaryId(), text: {} };
+    byLocalName(entry, 'langSec', 'langSet').forEach(section => {
+      const code = (section.getAttribute('xml:lang') || section.getAttribute('lang') || '').toLowerCase().split('-')[0];
+      const text = byLocalName(section, 'term')[0]?.textContent?.trim();
+      const lang = TBX_LANGS.find(([, c]) => c === code)?.[0];
+      if (lang && text && !term.text[lang]) term.text[lang] = text;
+    });
+    const note = byLocalName(entry, 'descrip', 'note', 'definition')[0]?.textContent?.trim();
+    if (note) term.note = note;
+    return term;
+  }).filter(t => termLanguages(t).length > 0);
+  return createGlossary(title || fallbackCourse, terms);
+}
+
+// ---------------------------------------------------------------------------
+// Matching for transcript highlighting
+// ---------------------------------------------------------------------------
+
+export interface GlossaryHit {
+  start: number;
+  end: number;
+  term: GlossaryTerm;
+}
+
+/**
+ * Finds every occurrence of any glossary variant in `text`. Thai and Chinese have no
+ * word spacing, so matching is by substring; overlapping hits keep the longest term.
+ */
+export function findGlossaryHits(text: string, terms: GlossaryTerm[]): GlossaryHit[] {
+  if (!text || terms.length === 0) return [];
+  const haystack = text.toLowerCase();
+  const candidates: GlossaryHit[] = [];
+  terms.forEach(term => {
+    Object.values(term.text).forEach(variant => {
+      const needle = variant?.trim().toLowerCase();
+      if (!needle) return;
+      let from = 0;
+      let index: number;
+      while ((index = haystack.indexOf(needle, from)) !== -1) {
+        candidates.push({ start: index, end: index + needle.length, term });
+        from = index + needle.length;
+      }
+    });
+  });
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const hits: GlossaryHit[] = [];
+  candidates.forEach(hit => {
+    const last = hits[hits.length - 1];
+    if (!last || hit.start >= last.end) hits.push(hit);
+  });
+  return hits;
+}
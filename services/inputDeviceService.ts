@@ -0,0 +1,172 @@
+import { UserRole } from '../types';
+
+/**
+ * Microphone choice and the browser's built-in voice processing. Lecture halls often use
+ * lavalier or USB conference mics that do their own processing, where the browser's
+ * echo cancellation and gain control make the signal worse rather than better.
+ *
+ * The layout maps microphones to speakers:
+ * - single: one microphone; the speaker comes from the role selector or language detection
+ * - twoDevices: the professor and the students each have their own microphone
+ * - stereo: one two-channel interface, professor on one channel and the student mic on the other
+ */
+
+export type InputLayout = 'single' | 'twoDevices' | 'stereo';
+
+export interface InputSettings {
+  /** Preferred input device id; empty for the system default. In the dual layouts, the professor's mic or the interface. */
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  layout: InputLayout;
+  /** The students' microphone in the `twoDevices` layout. */
+  studentDeviceId: string;
+  /** Interface channel (0 = left, 1 = right) carrying the professor in the `stereo` layout. */
+  professorChannel: 0 | 1;
+}
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  deviceId: '', echoCancellation: true, noiseSuppression: true, autoGainControl: true,
+  layout: 'single', studentDeviceId: '', professorChannel: 0
+};
+
+export const isDualLayout = (settings: InputSettings) => settings.layout !== 'single';
+
+const STORAGE_KEY = 'edutranslate_input_settings';
+
+export function loadInputSettings(): InputSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_INPUT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_INPUT_SETTINGS;
+  }
+}
+
+export function saveInputSettings(settings: InputSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export const audioConstraints = ({ deviceId, echoCancellation, noiseSuppression, autoGainControl }: InputSettings): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation,
+  noiseSuppression,
+  autoGainControl
+});
+
+/**
+ * Opens the configured microphone. A remembered device that is no longer connected
+ * falls back to the system default instead of failing the session.
+ */
+export async function openMicrophone(settings: InputSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings) });
+  } catch (err: any) {
+    if (settings.deviceId && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+      return navigator.mediaDevices.getUserMedia({ audio: audioConstraints({ ...settings, deviceId: '' }) });
+    }
+    throw err;
+  }
+}
+
+/** One speaker's signal inside the session's audio graph. */
+export interface InputChannel {
+  /** The speaker bound to this channel; null for the single-microphone layout. */
+  role: UserRole | null;
+  node: AudioNode;
+}
+
+export interface OpenedInputs {
+  channels: InputChannel[];
+  /** Each live track with the device the settings ask for, for hot-plug checks. */
+  tracks: { track: MediaStreamTrack; preferredId: string }[];
+  /** Disconnects the channels and releases the devices. */
+  close(): void;
+}
+
+async function openExactMicrophone(settings: InputSettings, deviceId: string): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: audioConstraints({ ...settings, deviceId }) });
+}
+
+/**
+ * Opens the microphones for `settings.layout` and exposes one node per speaker. The dual
+ * layouts do not fall back to the default device: two channels carrying the same mic
+ * would tag every turn with whichever role happened to open first.
+ */
+export async function openInputs(ctx: AudioContext, settings: InputSettings): Promise<OpenedInputs> {
+  const streams: MediaStream[] = [];
+  const nodes: AudioNode[] = [];
+  const opened = (channels: InputChannel[], preferredIds: string[]): OpenedInputs => ({
+    channels,
+    tracks: streams.map((stream, i) => ({ track: stream.getAudioTracks()[0], preferredId: preferredIds[i] })),
+    close() {
+      nodes.forEach(node => { try { node.disconnect(); } catch (e) {} });
+      streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    }
+  });
+  const own = <T extends AudioNode>(node: T) => { nodes.push(node); return node; };
+
+  try {
+    if (settings.layout === 'twoDevices') {
+      if (!settings.studentDeviceId || settings.studentDeviceId === settings.deviceId) throw new Error('Choose two different microphones for the professor and the students');
+      streams.push(await openExactMicrophone(settings, settings.deviceId));
+      streams.push(await openExactMicrophone(settings, settings.studentDeviceId));
+      return opened([
+        { role: 'Professor', node: own(ctx.createMediaStreamSource(streams[0])) },
+        { role: 'Student', node: own(ctx.createMediaStreamSource(streams[1])) }
+      ], [settings.deviceId, settings.studentDeviceId]);
+    }
+
+    if (settings.layout === 'stereo') {
+      // Browser voice processing mixes the input down to mono, so it is always off here
+      streams.push(await navigator.mediaDevices.getUserMedia({
+        audio: { ...audioConstraints({ ...settings, echoCancellation: false, noiseSuppression: false, autoGainControl: false }), channelCount: { ideal: 2 } }
+      }));
+      const channelCount = streams[0].getAudioTracks()[0]?.getSettings().channelCount;
+      if (channelCount !== undefined && channelCount < 2) throw new Error('The selected interface delivers a single channel');
+      const splitter = own(ctx.createChannelSplitter(2));
+      own(ctx.createMediaStreamSource(streams[0])).connect(splitter);
+      const channelNode = (index: number) => {
+        const gain = own(ctx.createGain());
+        splitter.connect(gain, index);
+        return gain;
+      };
+      const professor = channelNode(settings.professorChannel);
+      const student = channelNode(1 - settings.professorChannel);
+      return opened([{ role: 'Professor', node: professor }, { role: 'Student', node: student }], [settings.deviceId]);
+    }
+
+    streams.push(await openMicrophone(settings));
+    return opened([{ role: null, node: own(ctx.createMediaStreamSource(streams[0])) }], [settings.deviceId]);
+  } catch (err) {
+    streams.forEach(stream => stream.getTracks().forEach(t => t.stop()));
+    throw err;
+  }
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default' && d.deviceId !== 'communications');
+}
+
+/**
+ * After a `devicechange`, whether the live stream should be reopened: its device was
+ * unplugged, or the preferred device has just come (back) online.
+ */
+export function needsMicrophoneSwap(track: MediaStreamTrack | undefined, devices: MediaDeviceInfo[], preferredId: string): boolean {
+  if (!track || track.readyState === 'ended') return true;
+  const current = track.getSettings().deviceId;
+  if (current && devices.length > 0 && !devices.some(d => d.deviceId === current)) return true;
+  return Boolean(preferredId && current !== preferredId && devices.some(d => d.deviceId === preferredId));
+}
+
+/** RMS level of the analyser's current time-domain window, in dBFS (-100 for silence). */
+export function readLevelDb(analyser: AnalyserNode, buffer: Float32Array): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  const rms = Math.sqrt(sum / buffer.length);
+  return rms > 0 ? Math.max(-100, 20 * Math.log10(rms)) : -100;
+}
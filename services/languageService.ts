@@ -0,0 +1,116 @@
+import { LanguageId, LanguageInfo, LanguagePair, UserRole } from '../types';
+
+const CJK_IDEOGRAPHS = '\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF';
+
+/**
+ * Languages the classroom can run in. `script` matches the characters that identify the
+ * language in a transcription; Latin-script languages are weighted down in detection
+ * because Thai and CJK speech often carries English terms.
+ */
+export const LANGUAGES: Record<LanguageId, LanguageInfo> = {
+  Thai: {
+    id: 'Thai',
+    code: 'th',
+    name: 'Thai',
+    nativeName: 'ไทย',
+    script: /[\u0E00-\u0E7F]/g,
+    register: 'polite, formal Academic Thai'
+  },
+  Chinese: {
+    id: 'Chinese',
+    code: 'zh-CN',
+    name: 'Chinese',
+    nativeName: '中文',
+    script: new RegExp(`[${CJK_IDEOGRAPHS}]`, 'g'),
+    register: 'high-level, formal Academic Chinese (Simplified)'
+  },
+  English: {
+    id: 'English',
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    script: /[A-Za-z]/g,
+    latin: true,
+    register: 'formal Academic English'
+  },
+  Japanese: {
+    id: 'Japanese',
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    script: new RegExp(`[\\u3040-\\u30FF\\u31F0-\\u31FF${CJK_IDEOGRAPHS}]`, 'g'),
+    register: 'formal academic Japanese (desu/masu for speech, with standard academic terminology)'
+  },
+  Vietnamese: {
+    id: 'Vietnamese',
+    code: 'vi',
+    name: 'Vietnamese',
+    nativeName: 'Tiếng Việt',
+    script: /[A-Za-z\u00C0-\u00FD\u0102\u0103\u0110\u0111\u0128\u0129\u0168\u0169\u01A0\u01A1\u01AF\u01B0\u1EA0-\u1EF9]/g,
+    latin: true,
+    register: 'formal academic Vietnamese'
+  }
+};
+
+export const LANGUAGE_PAIRS: LanguagePair[] = [
+  { id: 'th-zh', lecturer: 'Thai', students: 'Chinese' },
+  { id: 'th-en', lecturer: 'Thai', students: 'English' },
+  { id: 'th-ja', lecturer: 'Thai', students: 'Japanese' },
+  { id: 'th-vi', lecturer: 'Thai', students: 'Vietnamese' }
+];
+
+export const DEFAULT_PAIR_ID = 'th-zh';
+
+export const getLanguagePair = (id: string | null | undefined): LanguagePair =>
+  LANGUAGE_PAIRS.find(p => p.id === id) ?? LANGUAGE_PAIRS.find(p => p.id === DEFAULT_PAIR_ID)!;
+
+export const languageName = (id: LanguageId) => LANGUAGES[id]?.name ?? id;
+
+export const pairLabel = (pair: LanguagePair) =>
+  `${LANGUAGES[pair.lecturer].code.slice(0, 2).toUpperCase()} ⇄ ${LANGUAGES[pair.students].code.slice(0, 2).toUpperCase()}`;
+
+export const pairLanguages = (pair: LanguagePair): LanguageId[] => [pair.lecturer, pair.students];
+
+/** The registered pair made of exactly these two languages, in either order. */
+export const findLanguagePair = (a: LanguageId, b: LanguageId) =>
+  LANGUAGE_PAIRS.find(p => (p.lecturer === a && p.students === b) || (p.lecturer === b && p.students === a));
+
+// Latin letters are so common as loanwords that a turn needs mostly Latin text to count
+const LATIN_WEIGHT = 0.3;
+
+/**
+ * Detects which of `candidates` a transcription is written in by counting script
+ * characters. Returns null when none of their scripts is present (e.g. English-only
+ * speech in a Thai/Chinese class, or empty text).
+ */
+export function detectLanguage(text: string, candidates: LanguageId[] = Object.keys(LANGUAGES)): LanguageId | null {
+  let best: LanguageId | null = null;
+  let bestScore = 0;
+  candidates.forEach(id => {
+    const info = LANGUAGES[id];
+    if (!info) return;
+    const score = (text.match(info.script)?.length ?? 0) * (info.latin ? LATIN_WEIGHT : 1);
+    if (score > bestScore) { best = id; bestScore = score; }
+  });
+  return best;
+}
+
+export const roleForLanguage = (lang: LanguageId, pair: LanguagePair): UserRole => lang === pair.lecturer ? 'Professor' : 'Student';
+
+export const languageForRole = (role: UserRole, pair: LanguagePair): LanguageId => role === 'Professor' ? pair.lecturer : pair.students;
+
+/** The other language of the pair, i.e. what a turn in `lang` is translated into. */
+export const targetLanguage = (lang: LanguageId, pair: LanguagePair): LanguageId => lang === pair.lecturer ? pair.students : pair.lecturer;
+
+/**
+ * Resolves the speaker of a completed turn. The input transcription wins; if it is
+ * script-less (e.g. English in a Thai/Chinese class) the translation's language tells
+ * us the opposite side.
+ */
+export function detectTurnSource(input: string, output: string, fallback: UserRole, pair: LanguagePair): { role: UserRole; sourceLang: LanguageId; targetLang: LanguageId } {
+  const candidates = pairLanguages(pair);
+  const fromInput = detectLanguage(input, candidates);
+  const fromOutput = fromInput ? null : detectLanguage(output, candidates);
+  const sourceLang = fromInput ?? (fromOutput ? targetLanguage(fromOutput, pair) : languageForRole(fallback, pair));
+  return { role: roleForLanguage(sourceLang, pair), sourceLang, targetLang: targetLanguage(sourceLang, pair) };
+}
@@ -0,0 +1,180 @@
+import { floatToPcm16 } from './audioService';
+import { createResampler } from './resampler';
+import { createVoiceGate, DEFAULT_PRE_ROLL_MS } from './vadService';
+
+/**
+ * Translation of pre-recorded lectures (guest lectures, thesis defenses). The file is
+ * decoded in the browser and fed to the same live backend the microphone uses, with the
+ * same voice gate, so it produces an ordinary session whose timestamps follow the
+ * recording instead of the wall clock.
+ */
+
+/** Anything the browser can decode: audio files and the audio track of video files. */
+export const MEDIA_ACCEPT = 'audio/*,video/*,.mp3,.m4a,.wav,.ogg,.webm,.mp4,.mov';
+
+/** The whole file is decoded in memory, so very large videos are refused up front. */
+export const MAX_MEDIA_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Decoding straight to the capture rate keeps an hour of audio at about 230 MB per
+ * channel; decoding at 48 kHz would triple that before resampling.
+ */
+const DECODE_RATE = 16000;
+
+export const MEDIA_SPEEDS = [1, 1.5, 2, 3];
+export const DEFAULT_MEDIA_SPEED = 2;
+
+/** How long to wait for the backend to finish a turn before streaming on regardless. */
+const TURN_TIMEOUT_MS = 15000;
+
+export interface DecodedMedia {
+  name: string;
+  audio: AudioBuffer;
+  durationMs: number;
+}
+
+/** h:mm:ss (or m:ss) position within a recording. */
+export const formatMediaTime = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor(total / 60) % 60;
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export async function decodeMediaFile(file: File): Promise<DecodedMedia> {
+  if (file.size > MAX_MEDIA_BYTES) throw new Error(`The file is larger than ${Math.round(MAX_MEDIA_BYTES / 1024 / 1024)} MB`);
+  const ctx = new OfflineAudioContext(1, 1, DECODE_RATE);
+  const audio = await ctx.decodeAudioData(await file.arrayBuffer());
+  if (audio.length === 0) throw new Error('The file contains no audio');
+  return { name: file.name, audio, durationMs: audio.duration * 1000 };
+}
+
+/**
+ * Yields the recording as 16-bit mono frames at `targetRate`, mixing channels down and
+ * resampling chunk by chunk so the whole file is never converted at once.
+ */
+export function* mediaFrames(audio: AudioBuffer, targetRate: number, frameMs: number): Generator<Int16Array> {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+  const resampler = audio.sampleRate === targetRate ? null : createResampler(audio.sampleRate, targetRate);
+  const chunk = Math.round(audio.sampleRate * frameMs / 1000);
+  for (let offset = 0; offset < audio.length; offset += chunk) {
+    const length = Math.min(chunk, audio.length - offset);
+    const mono = new Float32Array(length);
+    channels.forEach(data => {
+      for (let i = 0; i < length; i++) mono[i] += data[offset + i] / channels.length;
+    });
+    const samples = resampler ? resampler.process(mono) : mono;
+    if (samples.length > 0) yield floatToPcm16(samples);
+  }
+  if (resampler) {
+    const tail = resampler.flush();
+    if (tail.length > 0) yield floatToPcm16(tail);
+  }
+}
+
+export interface MediaTranslationOptions {
+  media: DecodedMedia;
+  /** Speech is sent this many times faster than real time; silence is skipped outright. */
+  speed: number;
+  sampleRate: number;
+  frameMs?: number;
+  sendAudio: (pcm: Int16Array) => void;
+  endAudioStream: () => void;
+  /** Every frame, speech or not, with its offset into the recording (ms). */
+  onFrame?: (pcm: Int16Array, offsetMs: number) => void;
+  /** Speech onsets and ends as offsets into the recording, including the gate's pre-roll. */
+  onSpeechStart?: (offsetMs: number) => void;
+  onSpeechEnd?: (offsetMs: number) => void;
+  onProgress?: (offsetMs: number) => void;
+}
+
+export interface MediaTranslation {
+  /** Tells the run the backend has answered, so the next utterance can be sent. */
+  turnCompleted(): void;
+  cancel(): void;
+  /** Resolves once the whole file has been sent and answered, or the run was cancelled. */
+  done: Promise<void>;
+}
+
+/**
+ * Streams a decoded recording into the translation backend. Each utterance is sent at
+ * `speed`, then the run waits for the backend to finish translating it before moving on,
+ * so a faster-than-real-time stream never interrupts a translation halfway through.
+ */
+export function startMediaTranslation(options: MediaTranslationOptions): MediaTranslation {
+  const { media, speed, sampleRate, frameMs = 100, sendAudio, endAudioStream, onFrame, onSpeechStart, onSpeechEnd, onProgress } = options;
+  let cancelled = false;
+  let speaking = false;
+  let awaitingTurn = false;
+  let offsetMs = 0;
+  let wake: (() => void) | null = null;
+
+  const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+  // A sleep that turnCompleted() and cancel() can cut short
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(() => { wake = null; resolve(); }, ms);
+    wake = () => { clearTimeout(timer); wake = null; resolve(); };
+  });
+
+  const gate = createVoiceGate({
+    mode: 'vad',
+    sampleRate,
+    onAudio: sendAudio,
+    onSpeechEnd: () => {
+      awaitingTurn = true;
+      onSpeechEnd?.(offsetMs);
+      endAudioStream();
+    },
+    onActivityChange: (active) => {
+      speaking = active;
+      if (active) onSpeechStart?.(Math.max(0, offsetMs - DEFAULT_PRE_ROLL_MS));
+    }
+  });
+
+  const waitForTurn = async () => {
+    const deadline = Date.now() + TURN_TIMEOUT_MS;
+    while (awaitingTurn && !cancelled && Date.now() < deadline) await wait(deadline - Date.now());
+    awaitingTurn = false;
+  };
+
+  const run = async () => {
+    let sinceYield = 0;
+    for (const frame of mediaFrames(media.audio, sampleRate, frameMs)) {
+      if (cancelled) return;
+      if (awaitingTurn) await waitForTurn();
+      if (cancelled) return;
+      const frameDurationMs = frame.length / sampleRate * 1000;
+      gate.push(frame);
+      onFrame?.(frame, offsetMs);
+      offsetMs += frameDurationMs;
+      onProgress?.(offsetMs);
+      // Pace speech only; silence never reaches the backend, so it can go as fast as the CPU
+      if (speaking) {
+        await sleep(frameDurationMs / speed);
+      } else if ((sinceYield += frameDurationMs) >= 2000) {
+        sinceYield = 0;
+        await sleep(0);
+      }
+    }
+    if (speaking) {
+      awaitingTurn = true;
+      onSpeechEnd?.(offsetMs);
+      endAudioStream();
+    }
+    if (awaitingTurn) await waitForTurn();
+  };
+
+  return {
+    turnCompleted() {
+      awaitingTurn = false;
+      wake?.();
+    },
+    cancel() {
+      cancelled = true;
+      wake?.();
+    },
+    done: run()
+  };
+}
@@ -0,0 +1,223 @@
+import { InputMode } from './vadService';
+import { ProviderKind } from './translationProvider';
+
+/** Pipeline stages timestamped for every turn (epoch ms, first occurrence only). */
+export type TurnStage = 'speechStart' | 'firstInput' | 'firstOutputText' | 'firstOutputAudio' | 'playbackStart' | 'turnComplete';
+
+/**
+ * - completed: the turn produced a translation
+ * - interrupted: playback was cut off because someone started speaking
+ * - dropped: speech was transcribed but the backend never translated it
+ */
+export type TurnOutcome = 'completed' | 'interrupted' | 'dropped';
+
+export interface TurnMetrics extends Partial<Record<TurnStage, number>> {
+  index: number;
+  outcome: TurnOutcome;
+  /** The transcript entry the turn became, when it produced one. */
+  entryId?: string;
+}
+
+export interface ReconnectEpisode {
+  startedAt: number;
+  attempts: number;
+  /** Absent while still reconnecting, or when every attempt failed. */
+  recoveredAt?: number;
+}
+
+export interface SessionMetrics {
+  sessionId: string;
+  sessionName: string;
+  provider: ProviderKind;
+  inputMode: InputMode;
+  startedAt: number;
+  connectedAt?: number;
+  endedAt?: number;
+  turns: TurnMetrics[];
+  reconnects: ReconnectEpisode[];
+}
+
+export interface MetricsRecorder {
+  connected(): void;
+  mark(stage: TurnStage, at?: number): void;
+  interrupted(): void;
+  /** Closes the current turn; `entryId` is the transcript entry it produced, if any. */
+  completeTurn(entryId?: string): void;
+  reconnecting(attempt: number): void;
+  reconnected(): void;
+  finish(): void;
+  snapshot(): SessionMetrics;
+}
+
+export interface MetricsRecorderOptions {
+  sessionId: string;
+  sessionName: string;
+  provider: ProviderKind;
+  inputMode: InputMode;
+  /** Called with a fresh snapshot after every change. */
+  onChange?: (metrics: SessionMetrics) => void;
+}
+
+/**
+ * Collects per-turn timings for one live run. Stages are keyed by the turn in progress,
+ * which opens on the first stage seen and closes on `completeTurn`.
+ */
+export function createMetricsRecorder(options: MetricsRecorderOptions): MetricsRecorder {
+  const { onChange, ...meta } = options;
+  const state: SessionMetrics = { ...meta, startedAt: Date.now(), turns: [], reconnects: [] };
+  let current: (Omit<TurnMetrics, 'outcome'> & { interrupted?: boolean }) | null = null;
+
+  const snapshot = (): SessionMetrics => ({ ...state, turns: [...state.turns], reconnects: state.reconnects.map(r => ({ ...r })) });
+  const changed = () => onChange?.(snapshot());
+
+  return {
+    connected() {
+      state.connectedAt ??= Date.now();
+      changed();
+    },
+
+    mark(stage, at = Date.now()) {
+      current ??= { index: state.turns.length + 1 };
+      if (current[stage] !== undefined) return;
+      current[stage] = at;
+      changed();
+    },
+
+    interrupted() {
+      if (!current) return;
+      current.interrupted = true;
+      changed();
+    },
+
+    completeTurn(entryId) {
+      if (!current) return;
+      const { interrupted, ...turn } = current;
+      current = null;
+      // Voice-gate triggers with nothing transcribed or translated were noise, not turns
+      if (turn.firstInput === undefined && turn.firstOutputText === undefined && turn.firstOutputAudio === undefined) return;
+      const hasOutput = turn.firstOutputText !== undefined || turn.firstOutputAudio !== undefined;
+      const outcome: TurnOutcome = interrupted ? 'interrupted' : hasOutput ? 'completed' : 'dropped';
+      state.turns.push({ ...turn, outcome, ...(entryId ? { entryId } : {}) });
+      changed();
+    },
+
+    reconnecting(attempt) {
+      const last = state.reconnects[state.reconnects.length - 1];
+      if (attempt === 1 || !last || last.recoveredAt !== undefined) state.reconnects.push({ startedAt: Date.now(), attempts: attempt });
+      else last.attempts = attempt;
+      changed();
+    },
+
+    reconnected() {
+      const last = state.reconnects[state.reconnects.length - 1];
+      if (last && last.recoveredAt === undefined) last.recoveredAt = Date.now();
+      changed();
+    },
+
+    finish() {
+      state.endedAt = Date.now();
+      changed();
+    },
+
+    snapshot
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+export interface LatencyMetric {
+  key: string;
+  label: string;
+  from: TurnStage[];
+  to: TurnStage;
+}
+
+/** Intervals reported in the panel; `from` falls back left to right when a stage is missing. */
+export const LATENCY_METRICS: LatencyMetric[] = [
+  { key: 'transcription', label: 'Speech → first transcription', from: ['speechStart'], to: 'firstInput' },
+  { key: 'firstAudio', label: 'Speech → first translated audio', from: ['speechStart', 'firstInput'], to: 'firstOutputAudio' },
+  { key: 'translation', label: 'First transcription → first audio', from: ['firstInput'], to: 'firstOutputAudio' },
+  { key: 'playback', label: 'Audio received → playback', from: ['firstOutputAudio'], to: 'playbackStart' },
+  { key: 'turn', label: 'Whole turn', from: ['speechStart', 'firstInput'], to: 'turnComplete' }
+];
+
+export interface Percentiles {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+export const turnLatency = (turn: TurnMetrics, metric: LatencyMetric): number | null => {
+  const start = metric.from.map(stage => turn[stage]).find(t => t !== undefined);
+  const end = turn[metric.to];
+  return start !== undefined && end !== undefined && end >= start ? end - start : null;
+};
+
+/** Nearest-rank percentiles. */
+export function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)] : null;
+  return { count: sorted.length, p50: rank(0.5), p90: rank(0.9), p95: rank(0.95), max: sorted.length ? sorted[sorted.length - 1] : null };
+}
+
+export interface MetricsSummary {
+  turns: Record<TurnOutcome, number>;
+  reconnects: number;
+  reconnectAttempts: number;
+  /** Time spent reconnecting, summed over recovered episodes. */
+  downtimeMs: number;
+  connectMs: number | null;
+  latency: Record<string, Percentiles>;
+}
+
+export function summarizeMetrics(metrics: SessionMetrics): MetricsSummary {
+  const turns: Record<TurnOutcome, number> = { completed: 0, interrupted: 0, dropped: 0 };
+  metrics.turns.forEach(t => { turns[t.outcome]++; });
+  const latency: Record<string, Percentiles> = {};
+  LATENCY_METRICS.forEach(metric => {
+    latency[metric.key] = percentiles(metrics.turns.map(t => turnLatency(t, metric)).filter((v): v is number => v !== null));
+  });
+  return {
+    turns,
+    reconnects: metrics.reconnects.length,
+    reconnectAttempts: metrics.reconnects.reduce((sum, r) => sum + r.attempts, 0),
+    downtimeMs: metrics.reconnects.reduce((sum, r) => sum + (r.recoveredAt !== undefined ? r.recoveredAt - r.startedAt : 0), 0),
+    connectMs: metrics.connectedAt !== undefined ? metrics.connectedAt - metrics.startedAt : null,
+    latency
+  };
+}
+
+export const METRICS_FORMAT = 'livetrans-metrics';
+
+/** The parts of the Network Information API we record; Chromium only, and not in the DOM typings. */
+interface NetworkInformation {
+  effectiveType?: string;
+  downlink?: number;
+  rtt?: number;
+}
+
+/**
+ * Diagnostics export: the summary, every turn and the browser's network estimate, so runs
+ * from different rooms and networks can be compared side by side.
+ */
+export function metricsToJson(metrics: SessionMetrics): string {
+  const connection = 'connection' in navigator ? navigator.connection as NetworkInformation | undefined : undefined;
+  const { turns, reconnects, ...session } = metrics;
+  return JSON.stringify({
+    format: METRICS_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    environment: {
+      userAgent: navigator.userAgent,
+      network: connection ? { effectiveType: connection.effectiveType, downlinkMbps: connection.downlink, rttMs: connection.rtt } : null
+    },
+    session,
+    summary: summarizeMetrics(metrics),
+    turns,
+    reconnects
+  }, null, 2);
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslationEvent } from './translationProvider';
+import { createMockProvider, MOCK_SAMPLE_RATE } from './mockProvider';
+
+const SCRIPT = [{ input: 'abcdefgh', output: 'XYZ' }];
+const CONFIG = { systemInstruction: '', voiceName: 'Kore' };
+
+let events: TranslationEvent[];
+const types = () => events.map(e => e.type);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  events = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMockProvider', () => {
+  it('opens on the next tick, not during connect', async () => {
+    const provider = createMockProvider({ script: SCRIPT });
+    await provider.connect(CONFIG, e => events.push(e));
+    expect(events).toEqual([]);
+    vi.advanceTimersByTime(0);
+    expect(events).toEqual([{ type: 'open' }]);
+    provider.close();
+  });
+
+  it('streams the input, then the translation with audio, then completes the turn', async () => {
+    const provider = createMockProvider({ script: SCRIPT, stepMs: 100, turnGapMs: 500, loop: false });
+    await provider.connect(CONFIG, e => events.push(e));
+    vi.advanceTimersByTime(0);
+    vi.advanceTimersByTime(499);
+    expect(types()).toEqual(['open']);
+
+    vi.advanceTimersByTime(1);
+    expect(events[1]).toEqual({ type: 'inputText', text: 'abcdef' });
+    vi.advanceTimersByTime(100);
+    expect(events[2]).toEqual({ type: 'inputText', text: 'gh' });
+    vi.advanceTimersByTime(100);
+    expect(events[3]).toEqual({ type: 'outputText', text: 'XYZ' });
+    expect(events[4]).toMatchObject({ type: 'audio', sampleRate: MOCK_SAMPLE_RATE });
+    vi.advanceTimersByTime(100);
+    expect(types()).toEqual(['open', 'inputText', 'inputText', 'outputText', 'audio', 'turnComplete']);
+
+    // Without looping the script ends after its last turn
+    vi.advanceTimersByTime(10000);
+    expect(events).toHaveLength(6);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('sends one step of 16-bit audio with each translation chunk', async () => {
+    const provider = createMockProvider({ script: SCRIPT, stepMs: 100, turnGapMs: 0, loop: false });
+    await provider.connect(CONFIG, e => events.push(e));
+    vi.advanceTimersByTime(1000);
+    const audio = events.find(e => e.type === 'audio');
+    expect(audio?.type === 'audio' && audio.data.byteLength).toBe(MOCK_SAMPLE_RATE / 10 * 2);
+  });
+
+  it('replays the script after a gap when looping', async () => {
+    const provider = createMockProvider({ script: SCRIPT, stepMs: 100, turnGapMs: 500 });
+    await provider.connect(CONFIG, e => events.push(e));
+    vi.advanceTimersByTime(800);
+    expect(types().at(-1)).toBe('turnComplete');
+    // One step to reach the end of the turn, then the gap
+    vi.advanceTimersByTime(599);
+    expect(types().at(-1)).toBe('turnComplete');
+    vi.advanceTimersByTime(1);
+    expect(events.at(-1)).toEqual({ type: 'inputText', text: 'abcdef' });
+    expect(types().filter(t => t === 'turnComplete')).toHaveLength(1);
+    provider.close();
+  });
+
+  it('stops emitting and clears its timer on close', async () => {
+    const provider = createMockProvider({ script: SCRIPT, stepMs: 100, turnGapMs: 500 });
+    await provider.connect(CONFIG, e => events.push(e));
+    vi.advanceTimersByTime(600);
+    const count = events.length;
+    provider.close();
+    expect(vi.getTimerCount()).toBe(0);
+    vi.advanceTimersByTime(10000);
+    expect(events).toHaveLength(count);
+  });
+
+  it('emits nothing when closed before opening', async () => {
+    const provider = createMockProvider({ script: SCRIPT });
+    await provider.connect(CONFIG, e => events.push(e));
+    provider.close();
+    vi.advanceTimersByTime(10000);
+    expect(events).toEqual([]);
+  });
+});
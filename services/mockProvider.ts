@@ -0,0 +1,113 @@
+import { TranslationEventHandler, TranslationProvider } from './translationProvider';
+
+export interface MockTurn {
+  input: string;
+  output: string;
+}
+
+export interface MockProviderOptions {
+  script?: MockTurn[];
+  /** Delay between emitted events. */
+  stepMs?: number;
+  /** Pause between scripted turns. */
+  turnGapMs?: number;
+  /** Replay the script from the start after the last turn. */
+  loop?: boolean;
+}
+
+export const MOCK_SAMPLE_RATE = 24000;
+
+export const DEFAULT_MOCK_SCRIPT: MockTurn[] = [
+  {
+    input: 'วันนี้เราจะพูดถึงระเบียบวิธีวิจัยเชิงคุณภาพ',
+    output: '今天我们将讨论质性研究方法。'
+  },
+  {
+    input: '老师，扎根理论和现象学有什么区别？',
+    output: 'อาจารย์ครับ ทฤษฎีฐานราก [Grounded Theory] กับปรากฏการณ์วิทยา [Phenomenology] แตกต่างกันอย่างไร'
+  },
+  {
+    input: 'ทฤษฎีฐานรากมุ่งสร้างทฤษฎีจากข้อมูล ส่วนปรากฏการณ์วิทยามุ่งเข้าใจประสบการณ์',
+    output: '扎根理论旨在从数据中建构理论，而现象学旨在理解亲身经验。'
+  }
+];
+
+/**
+ * Builds a short 16-bit PCM tone so the playback path is exercised without real speech.
+ */
+export function synthesizeTone(durationSec: number, frequency: number = 220, sampleRate: number = MOCK_SAMPLE_RATE): Uint8Array {
+  const length = Math.floor(durationSec * sampleRate);
+  const pcm = new Int16Array(length);
+  const fade = Math.min(length / 2, sampleRate * 0.02);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / sampleRate) * envelope * 0.2 * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+/** Splits text into small pieces the way streaming transcriptions arrive. */
+const chunkText = (text: string, size: number = 6): string[] => {
+  const chars = Array.from(text);
+  const chunks: string[] = [];
+  for (let i = 0; i < chars.length; i += size) chunks.push(chars.slice(i, i + size).join(''));
+  return chunks;
+};
+
+/**
+ * Offline provider that replays canned transcripts and PCM on a timer.
+ * Incoming microphone audio is accepted and discarded.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): TranslationProvider {
+  const { script = DEFAULT_MOCK_SCRIPT, stepMs = 180, turnGapMs = 2500, loop = true } = options;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = true;
+
+  const schedule = (fn: () => void, delay: number) => {
+    timer = setTimeout(() => { if (!closed) fn(); }, delay);
+  };
+
+  return {
+    name: 'Offline Demo',
+
+    async connect(_config, onEvent: TranslationEventHandler) {
+      closed = false;
+      const events = script.flatMap(turn => [
+        ...chunkText(turn.input).map(text => () => onEvent({ type: 'inputText', text })),
+        ...chunkText(turn.output).map(text => () => {
+          onEvent({ type: 'outputText', text });
+          onEvent({ type: 'audio', data: synthesizeTone(stepMs / 1000), sampleRate: MOCK_SAMPLE_RATE });
+        }),
+        () => onEvent({ type: 'turnComplete' }),
+        null
+      ]);
+      let index = 0;
+      const step = () => {
+        if (index >= events.length) {
+          if (!loop) return;
+          index = 0;
+        }
+        const event = events[index++];
+        if (event) {
+          event();
+          schedule(step, stepMs);
+        } else {
+          schedule(step, turnGapMs);
+        }
+      };
+      schedule(() => {
+        onEvent({ type: 'open' });
+        schedule(step, turnGapMs);
+      }, 0);
+    },
+
+    sendAudio() {},
+
+    endAudioStream() {},
+
+    close() {
+      closed = true;
+      if (timer) { clearTimeout(timer); timer = null; }
+    }
+  };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryTerm, LectureNotes, TranscriptEntry } from '../types';
+import { getLanguagePair } from './languageService';
+import { buildNotesSchema, createStubNotesGenerator, normalizeNotes, notesToMarkdown, upgradeNotes } from './notesService';
+
+const TH_ZH = getLanguagePair('th-zh');
+const TH_EN = getLanguagePair('th-en');
+
+let nextId = 0;
+const entry = (role: TranscriptEntry['role'], sourceLang: string, text: string, translation: string): TranscriptEntry =>
+  ({ id: String(++nextId), timestamp: nextId * 1000, role, sourceLang, text, translation });
+
+const LECTURE: TranscriptEntry[] = [
+  entry('Professor', 'Thai', 'วันนี้เราจะพูดถึงทฤษฎีการเรียนรู้', '今天我们讨论学习理论'),
+  entry('Professor', 'Thai', 'ให้อ่าน Vygotsky (1978) ก่อนสัปดาห์หน้า', '下周前请阅读 Vygotsky (1978)'),
+  entry('Professor', 'Thai', 'เราจะใช้การสัมภาษณ์เพื่อเก็บข้อมูล', '我们将通过访谈收集数据'),
+  entry('Student', 'Chinese', '老师，样本量需要多大？', 'อาจารย์ครับ กลุ่มตัวอย่างต้องใหญ่แค่ไหน'),
+  entry('Student', 'Chinese', '我明白了', 'ผมเข้าใจแล้ว')
+];
+
+const GLOSSARY: GlossaryTerm[] = [
+  { id: 'g1', text: { Thai: 'ทฤษฎีการเรียนรู้', Chinese: '学习理论', English: 'learning theory' } },
+  { id: 'g2', text: { Thai: 'สัมภาษณ์', English: 'interview' }, note: 'qualitative method' }
+];
+
+describe('createStubNotesGenerator', () => {
+  it('drafts notes from the transcript, lecturer side first', async () => {
+    const notes = await createStubNotesGenerator().generate({ session: null, entries: LECTURE, pair: TH_ZH, glossary: GLOSSARY });
+    expect(notes.generator).toBe('Offline draft');
+    expect(notes.pairId).toBe('th-zh');
+    expect(notes.summary).toEqual({
+      lecturer: 'วันนี้เราจะพูดถึงทฤษฎีการเรียนรู้ ให้อ่าน Vygotsky (1978) ก่อนสัปดาห์หน้า',
+      students: '今天我们讨论学习理论 下周前请阅读 Vygotsky (1978)'
+    });
+    expect(notes.arguments.map(p => p.lecturer)).toEqual([LECTURE[0].text, LECTURE[1].text]);
+    expect(notes.methodology.map(p => p.students)).toEqual([LECTURE[2].translation, LECTURE[3].text]);
+    expect(notes.questions).toEqual([{ lecturer: LECTURE[3].translation, students: LECTURE[3].text }]);
+    expect(notes.readings).toEqual(['Vygotsky (1978)']);
+  });
+
+  it('takes key terms from the glossary in the pair\'s languages', async () => {
+    const notes = await createStubNotesGenerator().generate({ session: null, entries: LECTURE, pair: TH_ZH, glossary: GLOSSARY });
+    expect(notes.keyTerms).toEqual([
+      { lecturer: 'ทฤษฎีการเรียนรู้', students: '学习理论', hint: 'learning theory' },
+      { lecturer: 'สัมภาษณ์', students: '', hint: 'qualitative method' }
+    ]);
+  });
+
+  it('follows the language pair of the session', async () => {
+    const entries = [
+      entry('Professor', 'Thai', 'สวัสดีครับ [greeting]', 'Hello everyone'),
+      entry('Student', 'English', 'What is the sampling method?', 'วิธีการสุ่มตัวอย่างคืออะไร')
+    ];
+    const notes = await createStubNotesGenerator().generate({ session: null, entries, pair: TH_EN });
+    expect(notes.pairId).toBe('th-en');
+    expect(notes.questions).toEqual([{ lecturer: 'วิธีการสุ่มตัวอย่างคืออะไร', students: 'What is the sampling method?' }]);
+    expect(notes.keyTerms).toEqual([{ lecturer: 'สวัสดีครับ', students: '', hint: 'greeting' }]);
+  });
+
+  it('returns empty notes for an empty transcript', async () => {
+    const notes = await createStubNotesGenerator().generate({ session: null, entries: [], pair: TH_ZH });
+    expect(notes.summary).toEqual({ lecturer: '', students: '' });
+    expect([notes.arguments, notes.methodology, notes.readings, notes.questions, notes.keyTerms]).toEqual([[], [], [], [], []]);
+  });
+});
+
+describe('normalizeNotes', () => {
+  it('reads texts keyed by the pair\'s languages', () => {
+    const notes = normalizeNotes({
+      summary: { Thai: ' สรุป ', English: 'Summary' },
+      arguments: [{ Thai: 'ข้อโต้แย้ง', English: 'Argument' }],
+      methodology: [],
+      readings: [' Freire (1970) '],
+      questions: [{ Thai: '', English: 'Why?' }],
+      keyTerms: [{ Thai: 'ทฤษฎี', English: 'theory', hint: 'explains' }]
+    }, 'Gemini', TH_EN);
+    expect(notes).toMatchObject({
+      generator: 'Gemini',
+      pairId: 'th-en',
+      summary: { lecturer: 'สรุป', students: 'Summary' },
+      arguments: [{ lecturer: 'ข้อโต้แย้ง', students: 'Argument' }],
+      readings: ['Freire (1970)'],
+      questions: [{ lecturer: '', students: 'Why?' }],
+      keyTerms: [{ lecturer: 'ทฤษฎี', students: 'theory', hint: 'explains' }]
+    });
+  });
+
+  it('drops malformed and empty items', () => {
+    const notes = normalizeNotes({
+      summary: 'not an object',
+      arguments: [null, 42, { Thai: '  ' }, { Chinese: '论点' }],
+      methodology: 'none',
+      readings: ['', 7, 'Dewey (1938)'],
+      keyTerms: [{ hint: 'orphan hint' }]
+    }, 'Gemini', TH_ZH);
+    expect(notes.summary).toEqual({ lecturer: '', students: '' });
+    expect(notes.arguments).toEqual([{ lecturer: '', students: '论点' }]);
+    expect(notes.methodology).toEqual([]);
+    expect(notes.readings).toEqual(['Dewey (1938)']);
+    expect(notes.questions).toEqual([]);
+    expect(notes.keyTerms).toEqual([]);
+  });
+
+  it.each([null, undefined, 'text', 3, []])('returns empty notes for %j', data => {
+    const notes = normalizeNotes(data, 'Gemini', TH_ZH);
+    expect(notes.summary).toEqual({ lecturer: '', students: '' });
+    expect(notes.arguments).toEqual([]);
+  });
+
+  it('matches the schema the model is asked for', () => {
+    const schema = buildNotesSchema(TH_EN);
+    expect(schema.properties.summary.required).toEqual(['Thai', 'English']);
+    expect(schema.properties.keyTerms.items.required).toEqual(['Thai', 'English', 'hint']);
+  });
+});
+
+describe('upgradeNotes', () => {
+  it('turns Thai/Chinese notes saved before language pairs into th-zh notes', () => {
+    const legacy = {
+      generatedAt: 123,
+      generator: 'Gemini',
+      summary: { thai: 'สรุป', chinese: '摘要' },
+      arguments: [{ thai: 'ก', chinese: '甲' }],
+      methodology: [],
+      readings: ['Freire (1970)'],
+      questions: [],
+      keyTerms: [{ thai: 'ทฤษฎี', chinese: '理论', hint: 'h' }]
+    } as unknown as LectureNotes;
+    expect(upgradeNotes(legacy)).toEqual({
+      generatedAt: 123,
+      generator: 'Gemini',
+      pairId: 'th-zh',
+      summary: { lecturer: 'สรุป', students: '摘要' },
+      arguments: [{ lecturer: 'ก', students: '甲' }],
+      methodology: [],
+      readings: ['Freire (1970)'],
+      questions: [],
+      keyTerms: [{ lecturer: 'ทฤษฎี', students: '理论', hint: 'h' }]
+    });
+  });
+
+  it('leaves current notes alone', () => {
+    const notes = normalizeNotes({}, 'Gemini', TH_EN);
+    expect(upgradeNotes(notes)).toBe(notes);
+    expect(upgradeNotes(undefined)).toBeUndefined();
+  });
+});
+
+describe('notesToMarkdown', () => {
+  const notes: LectureNotes = {
+    ...normalizeNotes({}, 'Gemini', TH_ZH),
+    summary: { lecturer: 'สรุปบทเรียน', students: '课程摘要' },
+    arguments: [{ lecturer: 'ข้อแรก', students: '第一点' }],
+    readings: ['Vygotsky (1978)'],
+    keyTerms: [{ lecturer: 'ทฤษฎี', students: '理论', hint: 'theory' }, { lecturer: '', students: '样本', hint: '' }]
+  };
+
+  it('renders the session heading, both languages and only non-empty sections', () => {
+    expect(notesToMarkdown(notes, { id: 's', name: 'Week 3', course: 'EDU 701', participants: '', startedAt: 0 })).toBe([
+      '# Week 3',
+      '_EDU 701_',
+      'Thai · Chinese',
+      '',
+      '## Summary',
+      '',
+      'สรุปบทเรียน',
+      '',
+      '课程摘要',
+      '',
+      '## Main arguments',
+      '',
+      '- ข้อแรก',
+      '  第一点',
+      '',
+      '## Readings',
+      '',
+      '- Vygotsky (1978)',
+      '',
+      '## Key terms',
+      '',
+      '- ทฤษฎี / 理论 [theory]',
+      '- 样本',
+      ''
+    ].join('\n'));
+  });
+
+  it('falls back to a generic title without a session', () => {
+    expect(notesToMarkdown(notes, null).split('\n').slice(0, 2)).toEqual(['# Lecture notes', 'Thai · Chinese']);
+  });
+});
@@ -0,0 +1,247 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { buildNotesInstruction, NOTES_MODEL } from '../constants';
+import { BilingualText, GlossaryTerm, LanguagePair, LectureNotes, LectureSession, NoteTerm, TranscriptEntry } from '../types';
+import { findGlossaryHits, hasLanguages } from './glossaryService';
+import { getLanguagePair, languageName, pairLanguages } from './languageService';
+import { ProviderKind, resolveProviderKind } from './translationProvider';
+
+type SessionMeta = Omit<LectureSession, 'entries'>;
+
+export interface NotesRequest {
+  session: SessionMeta | null;
+  entries: TranscriptEntry[];
+  /** Languages the notes are written in; the lecturer's side comes first. */
+  pair: LanguagePair;
+  glossary?: GlossaryTerm[];
+}
+
+/**
+ * Turns a finished lecture into study notes. The Gemini backend is used in the app;
+ * the stub works offline and gives deterministic output for demos.
+ */
+export interface NotesGenerator {
+  name: string;
+  generate(request: NotesRequest): Promise<LectureNotes>;
+}
+
+export const emptyNotes = (generator: string, pair: LanguagePair): LectureNotes => ({
+  generatedAt: Date.now(),
+  generator,
+  pairId: pair.id,
+  summary: { lecturer: '', students: '' },
+  arguments: [],
+  methodology: [],
+  readings: [],
+  questions: [],
+  keyTerms: []
+});
+
+/** Both sides of a turn, whichever language was spoken. */
+const bilingual = (entry: TranscriptEntry, pair: LanguagePair): BilingualText => entry.sourceLang === pair.lecturer
+  ? { lecturer: entry.text.trim(), students: entry.translation.trim() }
+  : { lecturer: entry.translation.trim(), students: entry.text.trim() };
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const field = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+const asList = <T>(value: unknown, map: (item: unknown) => T): T[] => Array.isArray(value) ? value.map(map) : [];
+
+/**
+ * Coerces model output into `LectureNotes`, dropping anything malformed. The model writes
+ * each text under its language, e.g. `{ "Thai": …, "English": … }` for a Thai/English class.
+ */
+export function normalizeNotes(data: unknown, generator: string, pair: LanguagePair): LectureNotes {
+  const asBilingual = (value: unknown): BilingualText =>
+    ({ lecturer: asString(field(value, pair.lecturer)), students: asString(field(value, pair.students)) });
+  const hasText = (b: BilingualText) => Boolean(b.lecturer || b.students);
+  return {
+    ...emptyNotes(generator, pair),
+    summary: asBilingual(field(data, 'summary')),
+    arguments: asList(field(data, 'arguments'), asBilingual).filter(hasText),
+    methodology: asList(field(data, 'methodology'), asBilingual).filter(hasText),
+    readings: asList(field(data, 'readings'), asString).filter(Boolean),
+    questions: asList(field(data, 'questions'), asBilingual).filter(hasText),
+    keyTerms: asList(field(data, 'keyTerms'), (t): NoteTerm => ({ ...asBilingual(t), hint: asString(field(t, 'hint')) })).filter(hasText)
+  };
+}
+
+/** Notes saved before language pairs had `thai`/`chinese` fields and no pair; they become Thai/Chinese notes. */
+export function upgradeNotes(notes: LectureNotes | undefined): LectureNotes | undefined {
+  if (!notes || notes.pairId) return notes;
+  const legacyKeys = (value: unknown) => ({ Thai: field(value, 'thai'), Chinese: field(value, 'chinese'), hint: field(value, 'hint') });
+  const legacy = {
+    summary: legacyKeys(notes.summary),
+    arguments: asList(notes.arguments, legacyKeys),
+    methodology: asList(notes.methodology, legacyKeys),
+    readings: notes.readings,
+    questions: asList(notes.questions, legacyKeys),
+    keyTerms: asList(notes.keyTerms, legacyKeys)
+  };
+  return { ...normalizeNotes(legacy, notes.generator, getLanguagePair('th-zh')), generatedAt: notes.generatedAt };
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+// Keeps the request well inside the model's context for very long seminars
+const MAX_TRANSCRIPT_CHARS = 400000;
+
+export function formatTranscriptForNotes({ session, entries, pair, glossary = [] }: NotesRequest): string {
+  const header = [
+    session?.name && `Session: ${session.name}`,
+    session?.course && `Course: ${session.course}`,
+    session?.participants && `Participants: ${session.participants}`
+  ].filter(Boolean).join('\n');
+  const english = pairLanguages(pair).includes('English') ? '' : 'English';
+  const terms = glossary
+    .filter(t => hasLanguages(t, pairLanguages(pair)))
+    .map(t => `- ${t.text[pair.lecturer]} = ${t.text[pair.students]}${english && t.text[english] ? ` (${t.text[english]})` : ''}`)
+    .join('\n');
+  const turns = entries.map(entry => {
+    const time = new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const speaker = entry.role === 'Professor' ? 'Professor' : 'Student';
+    return `[${time}] ${speaker} (${entry.sourceLang}): ${entry.text.trim()}\n  -> ${entry.translation.trim()}`;
+  }).join('\n');
+  return [
+    header,
+    terms && `Course glossary (use these translations):\n${terms}`,
+    `Transcript:\n${turns.length > MAX_TRANSCRIPT_CHARS ? turns.slice(0, MAX_TRANSCRIPT_CHARS) : turns}`
+  ].filter(Boolean).join('\n\n');
+}
+
+/** Response schema with one property per language of the pair, so the model knows which text goes where. */
+export function buildNotesSchema(pair: LanguagePair) {
+  const languages = [pair.lecturer, pair.students];
+  const texts = Object.fromEntries(languages.map(id => [id, { type: Type.STRING, description: `${languageName(id)} text` }]));
+  const bilingualSchema = { type: Type.OBJECT, properties: texts, required: languages };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      summary: bilingualSchema,
+      arguments: { type: Type.ARRAY, items: bilingualSchema },
+      methodology: { type: Type.ARRAY, items: bilingualSchema },
+      readings: { type: Type.ARRAY, items: { type: Type.STRING } },
+      questions: { type: Type.ARRAY, items: bilingualSchema },
+      keyTerms: {
+        type: Type.ARRAY,
+        items: { type: Type.OBJECT, properties: { ...texts, hint: { type: Type.STRING } }, required: [...languages, 'hint'] }
+      }
+    },
+    required: ['summary', 'arguments', 'methodology', 'readings', 'questions', 'keyTerms']
+  };
+}
+
+export function createGeminiNotesGenerator(apiKey: string | undefined = process.env.API_KEY): NotesGenerator {
+  return {
+    name: 'Gemini',
+    async generate(request: NotesRequest) {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: NOTES_MODEL,
+        contents: formatTranscriptForNotes(request),
+        config: {
+          systemInstruction: buildNotesInstruction(request.pair),
+          responseMimeType: 'application/json',
+          responseSchema: buildNotesSchema(request.pair)
+        }
+      });
+      if (!response.text) throw new Error('The model returned no notes');
+      return normalizeNotes(JSON.parse(response.text), 'Gemini', request.pair);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Offline stub
+// ---------------------------------------------------------------------------
+
+const METHODOLOGY_PATTERN = /ระเบียบวิธี|วิธีวิจัย|กลุ่มตัวอย่าง|เก็บข้อมูล|วิเคราะห์ข้อมูล|สัมภาษณ์|แบบสอบถาม|研究方法|方法论|样本|抽样|数据收集|访谈|问卷|methodology|sampling|interview|survey/i;
+const QUESTION_PATTERN = /[?？]|吗|ไหม|หรือไม่|อย่างไร|อะไร|什么|怎么|为什么/;
+export const CITATION_PATTERN = /《[^》]+》|[A-Z][A-Za-z'-]+(?:\s(?:and|&)\s[A-Z][A-Za-z'-]+|\set al\.)?,?\s\(?(?:19|20)\d{2}\)?/g;
+// A term followed by a bracketed hint, as produced by the live translator
+const HINT_PATTERN = /(\S{2,40}?)\s*\[([^\]]{1,80})\]/g;
+
+/**
+ * Heuristic notes built from the transcript alone: professor turns as arguments,
+ * keyword-matched methodology turns, student questions, citations, and terms from the
+ * bracketed hints and the course glossary.
+ */
+export function createStubNotesGenerator(): NotesGenerator {
+  return {
+    name: 'Offline draft',
+    async generate({ entries, pair, glossary = [] }: NotesRequest) {
+      const notes = emptyNotes('Offline draft', pair);
+      const sides = (entry: TranscriptEntry) => bilingual(entry, pair);
+      const lecture = entries.filter(e => e.role === 'Professor');
+      const opening = lecture.slice(0, 2).map(sides);
+      notes.summary = { lecturer: opening.map(b => b.lecturer).join(' '), students: opening.map(b => b.students).join(' ') };
+      notes.arguments = lecture.filter(e => !METHODOLOGY_PATTERN.test(`${e.text} ${e.translation}`)).map(sides);
+      notes.methodology = entries.filter(e => METHODOLOGY_PATTERN.test(`${e.text} ${e.translation}`)).map(sides);
+      notes.questions = entries.filter(e => e.role === 'Student' && QUESTION_PATTERN.test(e.text)).map(sides);
+
+      const readings = new Set<string>();
+      entries.forEach(e => `${e.text}\n${e.translation}`.match(CITATION_PATTERN)?.forEach(c => readings.add(c.trim())));
+      notes.readings = Array.from(readings);
+
+      // Keyed by the lecturer-side form; hints are only added to the lecturer's language
+      const terms = new Map<string, NoteTerm>();
+      entries.forEach(entry => {
+        const { lecturer, students } = sides(entry);
+        for (const match of lecturer.matchAll(HINT_PATTERN)) {
+          if (!terms.has(match[1])) terms.set(match[1], { lecturer: match[1], students: '', hint: match[2].trim() });
+        }
+        findGlossaryHits(`${lecturer}\n${students}`, glossary).forEach(({ term }) => {
+          const lecturerForm = term.text[pair.lecturer]?.trim() ?? '';
+          const studentsForm = term.text[pair.students]?.trim() ?? '';
+          if (!lecturerForm) return;
+          const known = terms.get(lecturerForm);
+          if (known) known.students = known.students || studentsForm;
+          else terms.set(lecturerForm, { lecturer: lecturerForm, students: studentsForm, hint: term.note || (pair.students !== 'English' && term.text.English) || '' });
+        });
+      });
+      notes.keyTerms = Array.from(terms.values());
+      return notes;
+    }
+  };
+}
+
+export function createNotesGenerator(kind: ProviderKind = resolveProviderKind()): NotesGenerator {
+  return kind === 'mock' ? createStubNotesGenerator() : createGeminiNotesGenerator();
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+export const formatNoteTerm = (term: NoteTerm) => `${[term.lecturer, term.students].filter(Boolean).join(' / ')}${term.hint ? ` [${term.hint}]` : ''}`;
+
+export const NOTE_SECTIONS: { key: 'arguments' | 'methodology' | 'questions'; title: string }[] = [
+  { key: 'arguments', title: 'Main arguments' },
+  { key: 'methodology', title: 'Methodology' },
+  { key: 'questions', title: 'Student questions' }
+];
+
+export function notesToMarkdown(notes: LectureNotes, session: SessionMeta | null): string {
+  const pair = getLanguagePair(notes.pairId);
+  const lines: string[] = [`# ${session?.name || 'Lecture notes'}`];
+  if (session?.course) lines.push(`_${session.course}_`);
+  lines.push(`${languageName(pair.lecturer)} · ${languageName(pair.students)}`);
+  lines.push('', '## Summary', '', notes.summary.lecturer, '', notes.summary.students);
+  NOTE_SECTIONS.forEach(({ key, title }) => {
+    if (notes[key].length === 0) return;
+    lines.push('', `## ${title}`, '');
+    notes[key].forEach(point => lines.push(`- ${point.lecturer}`, `  ${point.students}`));
+  });
+  if (notes.readings.length > 0) {
+    lines.push('', '## Readings', '');
+    notes.readings.forEach(reading => lines.push(`- ${reading}`));
+  }
+  if (notes.keyTerms.length > 0) {
+    lines.push('', '## Key terms', '');
+    notes.keyTerms.forEach(term => lines.push(`- ${formatNoteTerm(term)}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,233 @@
+import { decodeAudioData } from './audioService';
+
+/**
+ * What happens to the microphone while translated audio is playing:
+ * - open: frames go through unchanged (headsets, or rooms without feedback)
+ * - duck: frames are attenuated so speaker bleed stays under the voice gate
+ * - suppress: frames are not sent at all until shortly after playback ends
+ */
+export type MicPolicy = 'open' | 'duck' | 'suppress';
+
+export interface PlaybackSettings {
+  /** Linear gain; 1 is the level the backend sends. */
+  volume: number;
+  muted: boolean;
+  /** Playback speed; also shifts pitch, as with any resampling playback. */
+  rate: number;
+  /** Audio output device id; empty for the system default. */
+  sinkId: string;
+  micPolicy: MicPolicy;
+  /** Show captions only and never play translated audio. */
+  captionsOnly: boolean;
+}
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { volume: 1, muted: false, rate: 1, sinkId: '', micPolicy: 'duck', captionsOnly: false };
+
+export const VOLUME_MAX = 2;
+export const RATE_STEPS = [0.75, 0.9, 1, 1.1, 1.25, 1.5];
+
+const STORAGE_KEY = 'edutranslate_playback';
+
+export function loadPlaybackSettings(): PlaybackSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PLAYBACK_SETTINGS;
+  } catch (e) {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+}
+
+export function savePlaybackSettings(settings: PlaybackSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Gain applied to microphone frames under the `duck` policy (about -14 dB). */
+export const DUCK_GAIN = 0.2;
+
+/** Mic stays ducked/suppressed this long after playback, to cover room reverb. */
+export const MIC_RELEASE_MS = 300;
+
+/**
+ * Applies `policy` to one captured frame. Returns null when the frame should not be
+ * sent at all.
+ */
+export function applyMicPolicy(pcm: Int16Array, policy: MicPolicy, playing: boolean): Int16Array | null {
+  if (!playing || policy === 'open') return pcm;
+  if (policy === 'suppress') return null;
+  const ducked = new Int16Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) ducked[i] = pcm[i] * DUCK_GAIN;
+  return ducked;
+}
+
+/** Output routing is not in every browser (or every TypeScript DOM lib), so it is feature-detected. */
+interface SinkSelectable {
+  setSinkId(sinkId: string): Promise<void>;
+}
+
+const canSelectSink = (target: object | null): target is SinkSelectable => target !== null && 'setSinkId' in target;
+
+export const supportsOutputSelection = () =>
+  (typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype)
+  || (typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype);
+
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default' && d.deviceId !== 'communications');
+}
+
+/** Routes an `<audio>` element (entry replay) to the chosen output device. */
+export async function routeMediaElement(element: HTMLMediaElement, settings: PlaybackSettings) {
+  element.volume = settings.muted ? 0 : Math.min(1, settings.volume);
+  element.playbackRate = settings.rate;
+  if (settings.sinkId && canSelectSink(element)) await element.setSinkId(settings.sinkId);
+}
+
+export interface PlaybackEngine {
+  /**
+   * Queues 16-bit mono PCM after whatever is already scheduled. Returns the wall-clock
+   * time (epoch ms) playback of this chunk starts, or null when nothing is played.
+   */
+  enqueue(pcm: Uint8Array, sampleRate: number): Promise<number | null>;
+  /** Cuts off everything queued, e.g. when the speaker barges in. */
+  stop(): void;
+  /** True while translated audio is audible, plus the mic release time. */
+  isPlaying(): boolean;
+  apply(settings: PlaybackSettings): void;
+  close(): void;
+}
+
+export interface PlaybackEngineOptions {
+  onPlayingChange?: (playing: boolean) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Gapless scheduler for the translated speech: sources → gain → output. The output is
+ * the context's destination, switched with `AudioContext.setSinkId` where supported and
+ * otherwise played through an `<audio>` element that can be routed instead.
+ */
+export function createPlaybackEngine(ctx: AudioContext, initial: PlaybackSettings, options: PlaybackEngineOptions = {}): PlaybackEngine {
+  const { onPlayingChange, onError } = options;
+  let settings = initial;
+  let nextStartTime = 0;
+  let releaseUntil = 0;
+  let playing = false;
+  let releaseTimer: ReturnType<typeof setTimeout> | null = null;
+  const sources = new Set<AudioBufferSourceNode>();
+
+  const gain = ctx.createGain();
+  const contextRouting = 'setSinkId' in ctx;
+  let element: HTMLAudioElement | null = null;
+  if (contextRouting) {
+    gain.connect(ctx.destination);
+  } else {
+    const stream = ctx.createMediaStreamDestination();
+    gain.connect(stream);
+    element = new Audio();
+    element.srcObject = stream.stream;
+    element.play().catch(onError);
+  }
+
+  const setPlaying = (next: boolean) => {
+    if (playing === next) return;
+    playing = next;
+    onPlayingChange?.(next);
+  };
+
+  const scheduleRelease = () => {
+    if (releaseTimer) clearTimeout(releaseTimer);
+    const remainingMs = Math.max(0, (nextStartTime - ctx.currentTime) * 1000) + MIC_RELEASE_MS;
+    releaseUntil = Date.now() + remainingMs;
+    releaseTimer = setTimeout(() => { releaseTimer = null; if (sources.size === 0) setPlaying(false); }, remainingMs);
+  };
+
+  let routedSinkId = '';
+  const route = (sinkId: string) => {
+    if (sinkId === routedSinkId) return;
+    routedSinkId = sinkId;
+    const target = contextRouting ? ctx : element;
+    if (canSelectSink(target)) target.setSinkId(sinkId).catch(onError);
+  };
+
+  const engine: PlaybackEngine = {
+    async enqueue(pcm, sampleRate) {
+      if (settings.captionsOnly) return null;
+      if (ctx.state === 'suspended') await ctx.resume();
+      const buffer = await decodeAudioData(pcm, ctx, sampleRate, 1);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = settings.rate;
+      source.connect(gain);
+      source.addEventListener('ended', () => {
+        sources.delete(source);
+        if (sources.size === 0) scheduleRelease();
+      });
+      nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+      const startsAt = Date.now() + (nextStartTime - ctx.currentTime) * 1000;
+      source.start(nextStartTime);
+      nextStartTime += buffer.duration / settings.rate;
+      sources.add(source);
+      setPlaying(true);
+      return startsAt;
+    },
+
+    stop() {
+      if (sources.size === 0) return;
+      sources.forEach(source => { try { source.stop(); } catch (e) {} });
+      sources.clear();
+      nextStartTime = 0;
+      scheduleRelease();
+    },
+
+    // Muted playback cannot leak into the microphone
+    isPlaying: () => !settings.muted && settings.volume > 0 && (sources.size > 0 || Date.now() < releaseUntil),
+
+    apply(next) {
+      settings = next;
+      gain.gain.setTargetAtTime(next.muted ? 0 : next.volume, ctx.currentTime, 0.02);
+      route(next.sinkId);
+      if (next.captionsOnly) engine.stop();
+    },
+
+    close() {
+      engine.stop();
+      if (releaseTimer) clearTimeout(releaseTimer);
+      try { gain.disconnect(); } catch (e) {}
+      if (element) { element.pause(); element.srcObject = null; }
+      setPlaying(false);
+    }
+  };
+
+  gain.gain.value = settings.muted ? 0 : settings.volume;
+  route(settings.sinkId);
+  return engine;
+}
+
+/**
+ * Plays one clip outside a live session with the same volume, speed and output device.
+ * Resolves when it has finished (or immediately in captions-only mode).
+ */
+export async function playClip(pcm: Uint8Array, sampleRate: number, settings: PlaybackSettings): Promise<void> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let finish = () => {};
+  const finished = new Promise<void>(resolve => {
+    finish = () => {
+      finish = () => {};
+      engine.close();
+      ctx.close().catch(() => {});
+      resolve();
+    };
+  });
+  const engine = createPlaybackEngine(ctx, settings, {
+    onPlayingChange: playing => { if (!playing) finish(); },
+    onError: err => console.error('Clip playback error:', err)
+  });
+  try {
+    if (await engine.enqueue(pcm, sampleRate) === null) finish();
+  } catch (err) {
+    finish();
+    throw err;
+  }
+  return finished;
+}
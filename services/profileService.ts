@@ -0,0 +1,55 @@
+import { buildSystemInstruction } from '../constants';
+import { AcademicLevel, InstructionProfile, LanguagePair } from '../types';
+import { DEFAULT_PAIR_ID } from './languageService';
+
+const PROFILES_KEY = 'edutranslate_instruction_profiles';
+const PAIR_KEY = 'edutranslate_language_pair';
+const LEVEL_KEY = 'edutranslate_academic_level';
+
+/** Edited profiles keyed by `profileKey`; untouched combinations use the built-in default. */
+export type InstructionProfiles = Record<string, InstructionProfile>;
+
+export const profileKey = (pairId: string, level: AcademicLevel) => `${pairId}:${level}`;
+
+export function loadProfiles(): InstructionProfiles {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error('Failed to load instruction profiles', e);
+    return {};
+  }
+}
+
+export function saveProfiles(profiles: InstructionProfiles) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export const loadPairId = () => localStorage.getItem(PAIR_KEY) || DEFAULT_PAIR_ID;
+
+export const savePairId = (id: string) => localStorage.setItem(PAIR_KEY, id);
+
+export const loadAcademicLevel = () => (localStorage.getItem(LEVEL_KEY) as AcademicLevel) || 'masters';
+
+export const saveAcademicLevel = (level: AcademicLevel) => localStorage.setItem(LEVEL_KEY, level);
+
+export const isEditedProfile = (profiles: InstructionProfiles, pair: LanguagePair, level: AcademicLevel) =>
+  Boolean(profiles[profileKey(pair.id, level)]);
+
+/** The instruction to send for `pair` at `level`: the user's edit, else the default. */
+export const resolveInstruction = (profiles: InstructionProfiles, pair: LanguagePair, level: AcademicLevel) =>
+  profiles[profileKey(pair.id, level)]?.instruction || buildSystemInstruction(pair, level);
+
+export function setProfileInstruction(profiles: InstructionProfiles, pair: LanguagePair, level: AcademicLevel, instruction: string): InstructionProfiles {
+  const key = profileKey(pair.id, level);
+  if (instruction.trim() === buildSystemInstruction(pair, level).trim()) {
+    const { [key]: _removed, ...rest } = profiles;
+    return rest;
+  }
+  return { ...profiles, [key]: { pairId: pair.id, level, instruction, updatedAt: Date.now() } };
+}
+
+export function resetProfile(profiles: InstructionProfiles, pair: LanguagePair, level: AcademicLevel): InstructionProfiles {
+  const { [profileKey(pair.id, level)]: _removed, ...rest } = profiles;
+  return rest;
+}
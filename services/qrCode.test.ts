@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import jsQR from 'jsqr';
+import { encodeQr } from './qrCode';
+
+const QUIET_ZONE = 4;
+const SCALE = 4;
+
+/** Renders the module matrix as an RGBA image with a quiet zone, the way a camera would see it. */
+const decode = (modules: boolean[][]) => {
+  const width = (modules.length + 2 * QUIET_ZONE) * SCALE;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < SCALE; dy++) {
+      for (let dx = 0; dx < SCALE; dx++) {
+        const offset = (((y + QUIET_ZONE) * SCALE + dy) * width + (x + QUIET_ZONE) * SCALE + dx) * 4;
+        pixels.fill(0, offset, offset + 3);
+      }
+    }
+  }));
+  return jsQR(pixels, width, width);
+};
+
+const versionOf = (modules: boolean[][]) => (modules.length - 17) / 4;
+
+/** The longest join-style link that still fits each version, so every version is exercised at capacity. */
+const longestPerVersion = () => {
+  const longest = new Map<number, string>();
+  for (let length = 1; ; length++) {
+    const text = `http://192.168.1.10:3000/?view=captions&room=ABC123&relay=`.padEnd(length, 'x').slice(0, length);
+    let version: number;
+    try {
+      version = versionOf(encodeQr(text));
+    } catch (e) {
+      return longest;
+    }
+    longest.set(version, text);
+  }
+};
+
+describe('encodeQr', () => {
+  const samples = longestPerVersion();
+
+  it('covers versions 1 to 15', () => {
+    expect(Array.from(samples.keys())).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+  });
+
+  it.each(Array.from(samples.entries()))('round-trips version %i', (version, text) => {
+    const modules = encodeQr(text);
+    expect(modules.length).toBe(17 + 4 * version);
+    const result = decode(modules);
+    expect(result?.version).toBe(version);
+    expect(result?.data).toBe(text);
+  });
+
+  it('encodes text as UTF-8', () => {
+    const text = 'ห้องเรียน 课堂 ABC123';
+    const result = decode(encodeQr(text));
+    expect(result?.binaryData).toEqual(Array.from(new TextEncoder().encode(text)));
+  });
+
+  it('rejects text longer than version 15 holds', () => {
+    const tooLong = `${samples.get(15)}x`;
+    expect(() => encodeQr(tooLong)).toThrow();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Minimal QR Code encoder (byte mode, error correction level M, versions 1-15) so the
+ * broadcast join link can be shown as a QR code without a network service. Enough for
+ * URLs up to about 400 bytes.
+ */
+
+// Per version: EC codewords per block, then [block count, data codewords] per group
+const EC_LEVEL_M: [number, [number, number][]][] = [
+  [10, [[1, 16]]],
+  [16, [[1, 28]]],
+  [26, [[1, 44]]],
+  [18, [[2, 32]]],
+  [24, [[2, 43]]],
+  [16, [[4, 27]]],
+  [18, [[4, 31]]],
+  [22, [[2, 38], [2, 39]]],
+  [22, [[3, 36], [2, 37]]],
+  [26, [[4, 43], [1, 44]]],
+  [30, [[1, 50], [4, 51]]],
+  [22, [[6, 36], [2, 37]]],
+  [22, [[8, 37], [1, 38]]],
+  [24, [[4, 40], [5, 41]]],
+  [24, [[5, 41], [5, 42]]]
+];
+
+// Format information bits for level M
+const EC_LEVEL_M_BITS = 0;
+
+// ---------------------------------------------------------------------------
+// Reed-Solomon over GF(256), primitive polynomial 0x11D
+// ---------------------------------------------------------------------------
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Codewords
+// ---------------------------------------------------------------------------
+
+const dataCapacity = (version: number) =>
+  EC_LEVEL_M[version - 1][1].reduce((n, [blocks, size]) => n + blocks * size, 0);
+
+const encodeData = (bytes: Uint8Array, version: number) => {
+  const capacityBits = dataCapacity(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - bits.length % 8) % 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((v, bit) => (v << 1) | bit, 0));
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+const addErrorCorrection = (data: number[], version: number) => {
+  const [ecLength, groups] = EC_LEVEL_M[version - 1];
+  const divisor = rsDivisor(ecLength);
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let offset = 0;
+  groups.forEach(([count, size]) => {
+    for (let i = 0; i < count; i++) {
+      const block = data.slice(offset, offset + size);
+      blocks.push({ data: block, ec: rsRemainder(block, divisor) });
+      offset += size;
+    }
+  });
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map(b => b.data.length));
+  for (let i = 0; i < longest; i++) blocks.forEach(b => { if (i < b.data.length) result.push(b.data[i]); });
+  for (let i = 0; i < ecLength; i++) blocks.forEach(b => result.push(b.ec[i]));
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Matrix
+// ---------------------------------------------------------------------------
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((size - 13) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const buildMatrix = (codewords: number[], version: number, mask: number) => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  // Format information (two copies) and the always-dark module
+  const formatData = (EC_LEVEL_M_BITS << 3) | mask;
+  let rem = formatData;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const format = ((formatData << 10) | rem) ^ 0x5412;
+  const bit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+  for (let i = 0; i <= 5; i++) set(8, i, bit(format, i));
+  set(8, 7, bit(format, 6));
+  set(8, 8, bit(format, 7));
+  set(7, 8, bit(format, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(format, i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(format, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(format, i));
+  set(8, size - 8, true);
+
+  if (version >= 7) {
+    let vrem = version;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, bit(versionBits, i));
+      set(b, a, bit(versionBits, i));
+    }
+  }
+
+  // Data in the two-column zigzag, bottom-right first
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x]) continue;
+        const dark = index < codewords.length * 8 && bit(codewords[index >>> 3], 7 - (index & 7));
+        modules[y][x] = dark !== MASKS[mask](x, y);
+        index++;
+      }
+    }
+  }
+  return modules;
+};
+
+// ---------------------------------------------------------------------------
+// Mask selection
+// ---------------------------------------------------------------------------
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) { run++; continue; }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some(pattern => pattern.every((dark, k) => line[i + k] === dark))) score += 40;
+    }
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.reduce((n, row) => n + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+/**
+ * Encodes `text` as UTF-8 and returns the module matrix (`true` = dark), without the
+ * quiet zone. Throws when the text does not fit in version 15.
+ */
+export function encodeQr(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= EC_LEVEL_M.length && dataCapacity(version) * 8 < 4 + (version < 10 ? 8 : 16) + bytes.length * 8) version++;
+  if (version > EC_LEVEL_M.length) throw new Error('Text is too long for a QR code');
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let best: boolean[][] | null = null;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    const modules = buildMatrix(codewords, version, mask);
+    const score = penalty(modules);
+    if (score < bestScore) { best = modules; bestScore = score; }
+  });
+  return best!;
+}
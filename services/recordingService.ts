@@ -0,0 +1,106 @@
+import { AudioSpan, AudioTrack } from '../types';
+import { encodeWav } from './audioService';
+import { AudioChunk, getAudioChunks, saveAudioChunk } from './sessionStore';
+
+/**
+ * Records the microphone and the spoken translation of a session as two independent
+ * tracks. Each track's timeline is the audio it received, so `position()` gives the
+ * offset to store on a transcript entry for later replay.
+ */
+export interface SessionRecorder {
+  readonly sessionId: string;
+  append(track: AudioTrack, pcm: Int16Array, sampleRate: number): void;
+  /** Current length of `track` in milliseconds. */
+  position(track: AudioTrack): number;
+  /** Writes buffered audio; resolves once every pending chunk is stored. */
+  flush(): Promise<void>;
+}
+
+const FLUSH_MS = 5000;
+
+interface TrackState {
+  positionMs: number;
+  pendingStartMs: number;
+  pending: Int16Array[];
+  pendingSamples: number;
+  sampleRate: number;
+}
+
+const concatPcm = (parts: Int16Array[], length: number = parts.reduce((n, p) => n + p.length, 0)) => {
+  const result = new Int16Array(length);
+  let offset = 0;
+  parts.forEach(part => { result.set(part, offset); offset += part.length; });
+  return result;
+};
+
+export function createSessionRecorder(sessionId: string, onError: (err: unknown) => void = console.error): SessionRecorder {
+  const tracks: Record<AudioTrack, TrackState> = {
+    source: { positionMs: 0, pendingStartMs: 0, pending: [], pendingSamples: 0, sampleRate: 0 },
+    translation: { positionMs: 0, pendingStartMs: 0, pending: [], pendingSamples: 0, sampleRate: 0 }
+  };
+  let writes: Promise<void>[] = [];
+
+  const flushTrack = (track: AudioTrack) => {
+    const state = tracks[track];
+    if (state.pendingSamples === 0) return;
+    const chunk: AudioChunk = {
+      sessionId,
+      track,
+      startMs: state.pendingStartMs,
+      sampleRate: state.sampleRate,
+      data: concatPcm(state.pending, state.pendingSamples).buffer
+    };
+    writes.push(saveAudioChunk(chunk).catch(onError));
+    state.pending = [];
+    state.pendingSamples = 0;
+    state.pendingStartMs = state.positionMs;
+  };
+
+  return {
+    sessionId,
+
+    append(track: AudioTrack, pcm: Int16Array, sampleRate: number) {
+      const state = tracks[track];
+      if (state.pendingSamples > 0 && state.sampleRate !== sampleRate) flushTrack(track);
+      state.sampleRate = sampleRate;
+      state.pending.push(pcm.slice());
+      state.pendingSamples += pcm.length;
+      state.positionMs += pcm.length / sampleRate * 1000;
+      if (state.pendingSamples / sampleRate * 1000 >= FLUSH_MS) flushTrack(track);
+    },
+
+    position(track: AudioTrack) {
+      return tracks[track].positionMs;
+    },
+
+    async flush() {
+      flushTrack('source');
+      flushTrack('translation');
+      const pending = writes;
+      writes = [];
+      await Promise.all(pending);
+    }
+  };
+}
+
+/**
+ * Reassembles a recorded track, or just the part covered by `span`.
+ */
+export async function loadTrackPcm(sessionId: string, track: AudioTrack, span?: AudioSpan): Promise<{ pcm: Int16Array; sampleRate: number } | null> {
+  const chunks = (await getAudioChunks(sessionId, track, span?.start, span?.end)).sort((a, b) => a.startMs - b.startMs);
+  if (chunks.length === 0) return null;
+  const sampleRate = chunks[0].sampleRate;
+  const parts = chunks.map(chunk => {
+    const samples = new Int16Array(chunk.data);
+    if (!span) return samples;
+    const toSample = (ms: number) => Math.round((ms - chunk.startMs) * chunk.sampleRate / 1000);
+    return samples.subarray(Math.max(0, toSample(span.start)), Math.max(0, Math.min(samples.length, toSample(span.end))));
+  });
+  const pcm = concatPcm(parts);
+  return pcm.length > 0 ? { pcm, sampleRate } : null;
+}
+
+export async function loadTrackWav(sessionId: string, track: AudioTrack, span?: AudioSpan): Promise<Blob | null> {
+  const audio = await loadTrackPcm(sessionId, track, span);
+  return audio ? encodeWav(audio.pcm, audio.sampleRate) : null;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler, resample } from './resampler';
+
+const TARGET_RATE = 16000;
+/** Samples dropped at each end so the filter's start-up and tail don't skew the level. */
+const EDGE = 200;
+
+const tone = (frequency: number, rate: number, seconds: number = 0.5, phase: number = 0) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => Math.sin(2 * Math.PI * frequency * i / rate + phase));
+
+const rms = (signal: Float32Array) => {
+  let sum = 0;
+  for (let i = EDGE; i < signal.length - EDGE; i++) sum += signal[i] * signal[i];
+  return Math.sqrt(sum / (signal.length - 2 * EDGE));
+};
+
+const gain = (frequency: number, rate: number) => rms(resample(tone(frequency, rate), rate, TARGET_RATE)) / Math.SQRT1_2;
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+};
+
+describe.each([48000, 44100])('resampling %i Hz to 16 kHz', rate => {
+  it.each([100, 440, 1000, 3000, 5000, 6000])('passes %i Hz at unity gain', frequency => {
+    expect(gain(frequency, rate)).toBeCloseTo(1, 2);
+  });
+
+  it.each([8050, 8200, 8500, 9000, 10000, 12000, 15000, 20000])('attenuates %i Hz by at least 60 dB', frequency => {
+    expect(20 * Math.log10(gain(frequency, rate))).toBeLessThan(-60);
+  });
+
+  it.each([1, 7, 97, 331, 1021])('gives the same samples when fed in chunks of %i', size => {
+    const input = concat([tone(440, rate, 0.1), tone(2500, rate, 0.1, 1), tone(11000, rate, 0.1)]);
+    const resampler = createResampler(rate, TARGET_RATE);
+    const parts: Float32Array[] = [];
+    for (let i = 0; i < input.length; i += size) parts.push(resampler.process(input.subarray(i, i + size)));
+    parts.push(resampler.flush());
+    const chunked = concat(parts).subarray(0, Math.round(input.length * TARGET_RATE / rate));
+
+    const whole = resample(input, rate, TARGET_RATE);
+    expect(chunked.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 5);
+  });
+
+  it.each([0, 1, 1000, 4410, 48000, 12345])('returns round(n · 16000 / rate) samples for n = %i', n => {
+    expect(resample(new Float32Array(n), rate, TARGET_RATE).length).toBe(Math.round(n * TARGET_RATE / rate));
+  });
+
+  it('keeps output sample n at input time n / 16000 s', () => {
+    const out = resample(tone(1000, rate), rate, TARGET_RATE);
+    const ideal = tone(1000, TARGET_RATE, out.length / TARGET_RATE);
+    let maxError = 0;
+    for (let i = EDGE; i < out.length - EDGE; i++) maxError = Math.max(maxError, Math.abs(out[i] - ideal[i]));
+    expect(maxError).toBeLessThan(1e-3);
+  });
+
+  it('puts an impulse at the matching output position', () => {
+    const input = new Float32Array(rate);
+    const at = Math.round(rate * 0.25);
+    input[at] = 1;
+    const out = resample(input, rate, TARGET_RATE);
+    const peak = out.reduce((best, value, i) => (value > out[best] ? i : best), 0);
+    expect(Math.abs(peak - at * TARGET_RATE / rate)).toBeLessThanOrEqual(0.5);
+  });
+});
+
+describe('createResampler', () => {
+  it('rejects invalid rates', () => {
+    expect(() => createResampler(0, TARGET_RATE)).toThrow(RangeError);
+    expect(() => createResampler(48000, NaN)).toThrow(RangeError);
+  });
+
+  it('starts from silence again after reset', () => {
+    const resampler = createResampler(48000, TARGET_RATE);
+    const input = tone(1000, 48000, 0.05);
+    const first = concat([resampler.process(input), resampler.flush()]);
+    resampler.process(tone(3000, 48000, 0.01));
+    resampler.reset();
+    const second = concat([resampler.process(input), resampler.flush()]);
+    expect(Array.from(second)).toEqual(Array.from(first));
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Streaming band-limited resampler (Blackman-windowed sinc, arbitrary ratio).
+ *
+ * The low-pass cutoff follows the lower of the two Nyquist frequencies, so 44.1/48 kHz
+ * microphone audio is anti-aliased before it is decimated to 16 kHz. Filter state is
+ * carried between `process` calls: feeding a signal in chunks yields the same samples
+ * as feeding it at once, with no clicks at chunk boundaries.
+ */
+export interface ResamplerOptions {
+  /** Zero crossings of the sinc kernel on each side; more = sharper transition band. */
+  zeroCrossings?: number;
+  /** Passband edge as a fraction of the output Nyquist frequency. */
+  rolloff?: number;
+  /** Kernel table resolution per input sample. */
+  phases?: number;
+}
+
+export interface Resampler {
+  readonly fromRate: number;
+  readonly toRate: number;
+  /** Input samples held back as look-ahead before the matching output can be produced. */
+  readonly latency: number;
+  process(input: Float32Array): Float32Array;
+  /** Drains the samples still held by the filter and resets the state. */
+  flush(): Float32Array;
+  reset(): void;
+}
+
+const blackman = (x: number) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+export function createResampler(fromRate: number, toRate: number, options: ResamplerOptions = {}): Resampler {
+  if (!(fromRate > 0) || !(toRate > 0)) throw new RangeError(`Invalid resampling rates ${fromRate} -> ${toRate}`);
+  const { zeroCrossings = 20, rolloff = 0.86, phases = 128 } = options;
+
+  const step = fromRate / toRate;
+  // Normalised bandwidth in input samples: 1 means the full input Nyquist band is kept
+  const bandwidth = Math.min(1, toRate / fromRate) * rolloff;
+  const halfWidth = zeroCrossings / bandwidth;
+  const padding = Math.ceil(halfWidth);
+
+  // One-sided kernel h(d) = b·sinc(b·d)·w(d), tabulated at 1/phases sample spacing
+  const table = new Float32Array(Math.ceil(halfWidth * phases) + 2);
+  for (let j = 0; j < table.length; j++) {
+    const d = j / phases;
+    if (d > halfWidth) { table[j] = 0; continue; }
+    const x = Math.PI * bandwidth * d;
+    const sinc = x === 0 ? 1 : Math.sin(x) / x;
+    table[j] = bandwidth * sinc * blackman(d / halfWidth);
+  }
+
+  const kernel = (d: number) => {
+    const pos = Math.abs(d) * phases;
+    const j = Math.floor(pos);
+    if (j + 1 >= table.length) return 0;
+    const frac = pos - j;
+    return table[j] + (table[j + 1] - table[j]) * frac;
+  };
+
+  let history = new Float32Array(padding);
+  let time = padding;
+
+  const reset = () => {
+    history = new Float32Array(padding);
+    time = padding;
+  };
+
+  const process = (input: Float32Array): Float32Array => {
+    const data = new Float32Array(history.length + input.length);
+    data.set(history);
+    data.set(input, history.length);
+
+    const last = data.length - 1;
+    const count = time + halfWidth <= last ? Math.floor((last - halfWidth - time) / step) + 1 : 0;
+    const output = new Float32Array(count);
+    for (let n = 0; n < count; n++) {
+      const t = time + n * step;
+      const first = Math.ceil(t - halfWidth);
+      const end = Math.floor(t + halfWidth);
+      let acc = 0;
+      for (let k = first; k <= end; k++) acc += data[k] * kernel(t - k);
+      output[n] = acc;
+    }
+    time += count * step;
+
+    // Keep only the samples the next output still needs
+    const keepFrom = Math.max(0, Math.min(data.length, Math.floor(time - halfWidth)));
+    history = data.slice(keepFrom);
+    time -= keepFrom;
+    return output;
+  };
+
+  const flush = (): Float32Array => {
+    const tail = process(new Float32Array(padding + 1));
+    reset();
+    return tail;
+  };
+
+  return { fromRate, toRate, latency: padding, process, flush, reset };
+}
+
+/**
+ * Resamples a complete signal in one call; the output is time-aligned with the input.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number, options?: ResamplerOptions): Float32Array {
+  if (fromRate === toRate) return input.slice();
+  const resampler = createResampler(fromRate, toRate, options);
+  const expected = Math.round(input.length * toRate / fromRate);
+  const body = resampler.process(input);
+  const tail = resampler.flush();
+  const output = new Float32Array(body.length + tail.length);
+  output.set(body);
+  output.set(tail, body.length);
+  return output.subarray(0, expected);
+}
@@ -0,0 +1,121 @@
+import { LanguageId, TranscriptEntry, UserRole } from '../types';
+import { detectLanguage, LANGUAGES } from './languageService';
+import { MarkFilter, matchesMark } from './annotationService';
+
+export interface TranscriptFilters {
+  query: string;
+  role: UserRole | 'all';
+  sourceLang: LanguageId | 'all';
+  /** Time of day bounds as "HH:MM", inclusive; empty means unbounded. */
+  from: string;
+  to: string;
+  /** Bookmarks, stars, notes or a highlight colour. */
+  mark: MarkFilter;
+  matchesOnly: boolean;
+}
+
+export const EMPTY_FILTERS: TranscriptFilters = { query: '', role: 'all', sourceLang: 'all', from: '', to: '', mark: 'all', matchesOnly: false };
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  entry: TranscriptEntry;
+  textRanges: TextRange[];
+  translationRanges: TextRange[];
+}
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const segmenterFor = (locale: string) => {
+  if (!segmenters.has(locale)) segmenters.set(locale, new Intl.Segmenter(locale, { granularity: 'word' }));
+  return segmenters.get(locale)!;
+};
+
+/**
+ * Splits a search query into words. Thai, Chinese and Japanese are written without
+ * spaces, so a query such as "ระเบียบวิธีวิจัย" or "扎根理论" is segmented with the
+ * matching dictionary-based word segmenter instead of on whitespace.
+ */
+export function tokenizeQuery(query: string): string[] {
+  const tokens = new Set<string>();
+  query.toLowerCase().split(/\s+/).filter(Boolean).forEach(chunk => {
+    const lang = detectLanguage(chunk);
+    if (!lang || LANGUAGES[lang].latin || typeof Intl.Segmenter === 'undefined') { tokens.add(chunk); return; }
+    const segmenter = segmenterFor(LANGUAGES[lang].code);
+    for (const { segment, isWordLike } of segmenter.segment(chunk)) {
+      if (isWordLike && segment.trim()) tokens.add(segment);
+    }
+  });
+  return Array.from(tokens);
+}
+
+/** Every occurrence of any token, sorted and merged so ranges never overlap. */
+export function findTokenRanges(text: string, tokens: string[]): TextRange[] {
+  const haystack = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  tokens.forEach(token => {
+    let from = 0;
+    let index: number;
+    while ((index = haystack.indexOf(token, from)) !== -1) {
+      ranges.push({ start: index, end: index + token.length });
+      from = index + token.length;
+    }
+  });
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+    return merged;
+  }, []);
+}
+
+const minutesOfDay = (time: number) => {
+  const date = new Date(time);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+const parseClock = (value: string) => {
+  const [h, m] = value.split(':').map(Number);
+  return Number.isFinite(h) && Number.isFinite(m) ? h * 60 + m : null;
+};
+
+export function passesFilters(entry: TranscriptEntry, filters: TranscriptFilters): boolean {
+  if (filters.role !== 'all' && entry.role !== filters.role) return false;
+  if (filters.sourceLang !== 'all' && entry.sourceLang !== filters.sourceLang) return false;
+  if (!matchesMark(entry, filters.mark)) return false;
+  const minutes = minutesOfDay(entry.timestamp);
+  const from = filters.from ? parseClock(filters.from) : null;
+  const to = filters.to ? parseClock(filters.to) : null;
+  if (from !== null && minutes < from) return false;
+  if (to !== null && minutes > to) return false;
+  return true;
+}
+
+/**
+ * Applies the structured filters, then matches the query against both `text` and
+ * `translation`. An entry is a hit when every query token occurs in either field.
+ */
+export function searchTranscripts(entries: TranscriptEntry[], filters: TranscriptFilters): { visible: TranscriptEntry[]; results: SearchResult[] } {
+  const tokens = tokenizeQuery(filters.query);
+  const filtered = entries.filter(entry => passesFilters(entry, filters));
+  if (tokens.length === 0) return { visible: filtered, results: [] };
+
+  const results: SearchResult[] = [];
+  filtered.forEach(entry => {
+    const haystack = `${entry.text}\n${entry.translation}`.toLowerCase();
+    if (!tokens.every(token => haystack.includes(token))) return;
+    results.push({
+      entry,
+      textRanges: findTokenRanges(entry.text, tokens),
+      translationRanges: findTokenRanges(entry.translation, tokens)
+    });
+  });
+  return { visible: filters.matchesOnly ? results.map(r => r.entry) : filtered, results };
+}
+
+export const hasActiveFilters = (filters: TranscriptFilters) =>
+  Boolean(filters.query.trim() || filters.role !== 'all' || filters.sourceLang !== 'all' || filters.mark !== 'all' || filters.from || filters.to);
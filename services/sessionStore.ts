@@ -0,0 +1,177 @@
+import { AudioTrack, LectureSession, LectureSessionSummary, TranscriptEntry } from '../types';
+import { upgradeNotes } from './notesService';
+
+const DB_NAME = 'livetrans';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'audioChunks';
+
+const LEGACY_HISTORY_KEY = 'edutranslate_history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        const audio = db.createObjectStore(AUDIO_STORE, { autoIncrement: true });
+        audio.createIndex('session', 'sessionId');
+        audio.createIndex('session_track_start', ['sessionId', 'track', 'startMs']);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => { dbPromise = null; reject(request.error); };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName: string = SESSION_STORE): Promise<T> {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export const summarizeSession = ({ entries, ...meta }: LectureSession): LectureSessionSummary => ({ ...meta, entryCount: entries.length });
+
+export const defaultSessionName = (date: number = Date.now()) =>
+  `Lecture ${new Date(date).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })}`;
+
+export function createLectureSession(meta: Partial<Omit<LectureSession, 'id'>> = {}): LectureSession {
+  const startedAt = meta.startedAt ?? Date.now();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: meta.name || defaultSessionName(startedAt),
+    course: meta.course ?? '',
+    participants: meta.participants ?? '',
+    startedAt,
+    endedAt: meta.endedAt,
+    mediaFile: meta.mediaFile,
+    notes: upgradeNotes(meta.notes),
+    context: meta.context,
+    entries: meta.entries ?? []
+  };
+}
+
+export async function listSessions(): Promise<LectureSessionSummary[]> {
+  const sessions = await withStore<LectureSession[]>('readonly', store => store.getAll());
+  return sessions.map(summarizeSession).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<LectureSession | undefined> {
+  const session = await withStore<LectureSession | undefined>('readonly', store => store.get(id));
+  return session && { ...session, notes: upgradeNotes(session.notes) };
+}
+
+export async function saveSession(session: LectureSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  await deleteAudioChunks(id);
+}
+
+// ---------------------------------------------------------------------------
+// Recorded audio, stored as raw 16-bit PCM chunks of a few seconds each
+// ---------------------------------------------------------------------------
+
+export interface AudioChunk {
+  sessionId: string;
+  track: AudioTrack;
+  /** Offset of the first sample within the track. */
+  startMs: number;
+  sampleRate: number;
+  data: ArrayBuffer;
+}
+
+/** Recorders must flush chunks no longer than this, so range queries can find overlaps. */
+export const MAX_AUDIO_CHUNK_MS = 10000;
+
+export async function saveAudioChunk(chunk: AudioChunk): Promise<void> {
+  await withStore('readwrite', store => store.add(chunk), AUDIO_STORE);
+}
+
+/**
+ * Chunks of one track in playback order, optionally limited to those overlapping `[fromMs, toMs]`.
+ */
+export function getAudioChunks(sessionId: string, track: AudioTrack, fromMs: number = 0, toMs: number = Infinity): Promise<AudioChunk[]> {
+  const range = IDBKeyRange.bound(
+    [sessionId, track, Math.max(0, fromMs - MAX_AUDIO_CHUNK_MS)],
+    [sessionId, track, toMs === Infinity ? Number.MAX_SAFE_INTEGER : toMs]
+  );
+  return withStore<AudioChunk[]>('readonly', store => store.index('session_track_start').getAll(range), AUDIO_STORE);
+}
+
+export async function deleteAudioChunks(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  const store = tx.objectStore(AUDIO_STORE);
+  const request = store.index('session').openKeyCursor(IDBKeyRange.only(sessionId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Case-insensitive search over session metadata and the text of every entry.
+ */
+export async function searchSessions(query: string): Promise<LectureSessionSummary[]> {
+  const needle = query.trim().toLowerCase();
+  const sessions = await withStore<LectureSession[]>('readonly', store => store.getAll());
+  return sessions
+    .filter(s => !needle
+      || [s.name, s.course, s.participants].some(field => field.toLowerCase().includes(needle))
+      || s.entries.some(e => e.text.toLowerCase().includes(needle) || e.translation.toLowerCase().includes(needle)))
+    .map(summarizeSession)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+let migration: Promise<LectureSession | null> | null = null;
+
+/**
+ * One-time import of the single `edutranslate_history` localStorage array used before the
+ * session library existed. The legacy key is removed only after the session is stored.
+ * Concurrent callers share one run so the history is never imported twice.
+ */
+export function migrateLegacyHistory(): Promise<LectureSession | null> {
+  if (!migration) migration = importLegacyHistory().finally(() => { migration = null; });
+  return migration;
+}
+
+async function importLegacyHistory(): Promise<LectureSession | null> {
+  let entries: TranscriptEntry[] = [];
+  try {
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    entries = saved ? JSON.parse(saved) : [];
+  } catch (e) { entries = []; }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return null;
+  }
+  const session = createLectureSession({
+    name: 'Imported history',
+    startedAt: entries[0].timestamp,
+    endedAt: entries[entries.length - 1].timestamp,
+    entries
+  });
+  await saveSession(session);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return session;
+}
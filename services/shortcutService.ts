@@ -0,0 +1,100 @@
+/**
+ * Keyboard shortcuts for lecturers at the podium. Each action can have several key
+ * combinations, so a presentation clicker (which sends PageUp/PageDown) can sit beside
+ * the keyboard bindings once it is turned on. Combos are written like "Alt+S", "Shift+?"
+ * or "PageDown".
+ */
+
+export type ShortcutAction = 'toggleSession' | 'switchRole' | 'toggleMute' | 'bookmark' | 'openCaptions' | 'copyTranslation' | 'showShortcuts';
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string; hint: string }[] = [
+  { action: 'toggleSession', label: 'Start / stop session', hint: 'Connects or disconnects the live translation.' },
+  { action: 'switchRole', label: 'Switch speaker', hint: 'Alternates between professor and student before a session starts.' },
+  { action: 'toggleMute', label: 'Mute translation audio', hint: 'Captions keep running.' },
+  { action: 'bookmark', label: 'Bookmark', hint: 'Marks the turn being spoken, or the last one.' },
+  { action: 'openCaptions', label: 'Open caption view', hint: 'Full-screen captions for the projector.' },
+  { action: 'copyTranslation', label: 'Copy last translation', hint: 'Copies it to the clipboard.' },
+  { action: 'showShortcuts', label: 'Show shortcuts', hint: 'Opens this sheet.' }
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleSession: ['Alt+S'],
+  switchRole: ['Alt+R'],
+  toggleMute: ['Alt+M'],
+  bookmark: ['Alt+B'],
+  openCaptions: ['Alt+C'],
+  copyTranslation: ['Alt+T'],
+  showShortcuts: ['Shift+?']
+};
+
+/**
+ * Keys a presentation clicker sends, bound to actions that work during a session (the
+ * speaker cannot be switched then). Not bound by default: the shortcut listener cancels
+ * the key's default action, which would stop PageUp/PageDown from scrolling the page.
+ */
+export const CLICKER_SHORTCUTS: [ShortcutAction, string][] = [
+  ['toggleMute', 'PageDown'],
+  ['bookmark', 'PageUp']
+];
+
+/** Space is push-to-talk and Escape closes dialogs and cancels key capture. */
+export const RESERVED_COMBOS = ['Space', 'Escape'];
+
+const STORAGE_KEY = 'edutranslate_shortcuts';
+
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_SHORTCUTS, ...JSON.parse(saved) } : DEFAULT_SHORTCUTS;
+  } catch (e) {
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock'];
+
+/**
+ * The combo a key press stands for, or null for a lone modifier. Letters and digits are
+ * read from the physical key, so Alt+S stays Alt+S on layouts where Alt changes the character.
+ */
+export function comboFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  let key: string;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+  else if (e.key === ' ') key = 'Space';
+  else key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [e.ctrlKey && 'Ctrl', e.metaKey && 'Meta', e.altKey && 'Alt', e.shiftKey && 'Shift', key].filter(Boolean).join('+');
+}
+
+export function findShortcut(bindings: ShortcutBindings, combo: string): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find(({ action }) => bindings[action].includes(combo))?.action ?? null;
+}
+
+/** Adds `combo` to `action`, taking it away from any action that had it. */
+export function bindShortcut(bindings: ShortcutBindings, action: ShortcutAction, combo: string): ShortcutBindings {
+  const next = {} as ShortcutBindings;
+  SHORTCUT_ACTIONS.forEach(({ action: a }) => { next[a] = bindings[a].filter(c => c !== combo); });
+  next[action] = [...next[action], combo];
+  return next;
+}
+
+export const hasClickerShortcuts = (bindings: ShortcutBindings) =>
+  CLICKER_SHORTCUTS.every(([action, combo]) => bindings[action].includes(combo));
+
+/** Binds the clicker keys, or removes them again when `enabled` is false. */
+export function setClickerShortcuts(bindings: ShortcutBindings, enabled: boolean): ShortcutBindings {
+  return CLICKER_SHORTCUTS.reduce((next, [action, combo]) => enabled
+    ? bindShortcut(next, action, combo)
+    : { ...next, [action]: next[action].filter(c => c !== combo) }, bindings);
+}
+
+/** Key presses in text fields belong to the field, not to shortcuts or push-to-talk. */
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
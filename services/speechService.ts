@@ -0,0 +1,57 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { TTS_MODEL } from '../constants';
+import { decodeAudio } from './audioService';
+import { MOCK_SAMPLE_RATE, synthesizeTone } from './mockProvider';
+import { ProviderKind, resolveProviderKind } from './translationProvider';
+
+export interface SynthesizedSpeech {
+  /** 16-bit mono PCM. */
+  data: Uint8Array;
+  sampleRate: number;
+}
+
+/**
+ * Speaks a typed message's translation in the session voice, so typed questions are
+ * heard in the room like spoken ones. Gemini TTS in the app; a tone offline.
+ */
+export interface SpeechSynthesizer {
+  name: string;
+  synthesize(text: string, voiceName: string): Promise<SynthesizedSpeech>;
+}
+
+const TTS_SAMPLE_RATE = 24000;
+
+export function createGeminiSpeechSynthesizer(apiKey: string | undefined = process.env.API_KEY): SpeechSynthesizer {
+  return {
+    name: 'Gemini',
+    async synthesize(text, voiceName) {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
+        }
+      });
+      const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+      if (!audio) throw new Error('The model returned no audio');
+      return { data: decodeAudio(audio), sampleRate: TTS_SAMPLE_RATE };
+    }
+  };
+}
+
+/** Offline stand-in: a tone roughly as long as the text would take to read out. */
+export function createStubSpeechSynthesizer(): SpeechSynthesizer {
+  return {
+    name: 'Offline demo',
+    async synthesize(text) {
+      const seconds = Math.min(6, Math.max(0.5, Array.from(text).length * 0.08));
+      return { data: synthesizeTone(seconds, 330), sampleRate: MOCK_SAMPLE_RATE };
+    }
+  };
+}
+
+export function createSpeechSynthesizer(kind: ProviderKind = resolveProviderKind()): SpeechSynthesizer {
+  return kind === 'mock' ? createStubSpeechSynthesizer() : createGeminiSpeechSynthesizer();
+}
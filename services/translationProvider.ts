@@ -0,0 +1,53 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+/**
+ * Backend-agnostic contract for a live speech translation session.
+ * App.tsx only talks to this interface; Gemini Live and the offline mock implement it.
+ */
+export type TranslationEvent =
+  | { type: 'open' }
+  | { type: 'inputText'; text: string }
+  | { type: 'outputText'; text: string }
+  | { type: 'audio'; data: Uint8Array; sampleRate: number }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'resumable'; handle: string }
+  | { type: 'error'; error: unknown }
+  | { type: 'close' };
+
+export type TranslationEventHandler = (event: TranslationEvent) => void;
+
+export interface TranslationSessionConfig {
+  systemInstruction: string;
+  voiceName: string;
+  /** Resumption handle from a previous `resumable` event, to continue that session. */
+  resumeHandle?: string;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  /** Resolves once the session is open; events are delivered to `onEvent` until `close()`. */
+  connect(config: TranslationSessionConfig, onEvent: TranslationEventHandler): Promise<void>;
+  /** Sends a frame of 16-bit mono PCM captured at `sampleRate`. */
+  sendAudio(pcm: Int16Array, sampleRate: number): void;
+  /** Tells the backend the speaker has stopped, so the turn can complete without waiting for silence. */
+  endAudioStream(): void;
+  close(): void;
+}
+
+export type ProviderKind = 'gemini' | 'mock';
+
+/**
+ * Picks the backend: `?provider=mock` forces the offline mock, and the mock is also
+ * used when no API key was configured so the UI can be demoed without network access.
+ */
+export function resolveProviderKind(search: string = window.location.search, apiKey: string | undefined = process.env.API_KEY): ProviderKind {
+  const requested = new URLSearchParams(search).get('provider');
+  if (requested === 'mock' || requested === 'gemini') return requested;
+  return apiKey ? 'gemini' : 'mock';
+}
+
+export function createTranslationProvider(kind: ProviderKind = resolveProviderKind()): TranslationProvider {
+  return kind === 'mock' ? createMockProvider() : createGeminiProvider();
+}
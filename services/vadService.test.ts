@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { createSpeakerFloor, createVoiceGate, DEFAULT_PRE_ROLL_MS, InputMode, VoiceGateOptions } from './vadService';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME = SAMPLE_RATE * FRAME_MS / 1000;
+
+// A 200 Hz tone reads as voiced speech: loud, with few zero crossings
+const speech = () => Int16Array.from({ length: FRAME }, (_, i) => Math.round(Math.sin(2 * Math.PI * 200 * i / SAMPLE_RATE) * 0.3 * 32767));
+const silence = () => new Int16Array(FRAME);
+// Just as loud, but crossing zero on every sample like broadband hiss
+const hiss = () => Int16Array.from({ length: FRAME }, (_, i) => (i % 2 ? 8000 : -8000));
+const frames = (count: number, make: () => Int16Array) => Array.from({ length: count }, make);
+
+const recordGate = (mode: InputMode, options: Partial<VoiceGateOptions> = {}) => {
+  const sent: Int16Array[] = [];
+  const activity: boolean[] = [];
+  let speechEnds = 0;
+  const gate = createVoiceGate({
+    mode,
+    sampleRate: SAMPLE_RATE,
+    onAudio: pcm => sent.push(pcm),
+    onSpeechEnd: () => speechEnds++,
+    onActivityChange: active => activity.push(active),
+    ...options
+  });
+  return { gate, sent, activity, speechEnds: () => speechEnds };
+};
+
+describe('createVoiceGate', () => {
+  it('passes every frame through in continuous mode', () => {
+    const { gate, sent } = recordGate('continuous');
+    const input = [...frames(3, silence), ...frames(2, speech)];
+    input.forEach(gate.push);
+    expect(sent).toEqual(input);
+  });
+
+  it('holds back silence until speech starts', () => {
+    const { gate, sent, activity } = recordGate('vad');
+    frames(50, silence).forEach(gate.push);
+    expect(sent).toEqual([]);
+    expect(activity).toEqual([]);
+  });
+
+  it('opens on speech and sends the pre-roll before the onset frame', () => {
+    const { gate, sent, activity } = recordGate('vad');
+    const quiet = frames(50, silence);
+    quiet.forEach(gate.push);
+    const onset = speech();
+    gate.push(onset);
+
+    expect(activity).toEqual([true]);
+    const preRoll = DEFAULT_PRE_ROLL_MS / FRAME_MS;
+    expect(sent).toHaveLength(preRoll + 1);
+    expect(sent.slice(0, preRoll)).toEqual(quiet.slice(-preRoll));
+    expect(sent[preRoll]).toBe(onset);
+  });
+
+  it('keeps only the configured pre-roll', () => {
+    const { gate, sent } = recordGate('vad', { preRollMs: 100 });
+    frames(50, silence).forEach(gate.push);
+    gate.push(speech());
+    expect(sent).toHaveLength(100 / FRAME_MS + 1);
+  });
+
+  it('is not opened by hiss', () => {
+    const { gate, sent, activity } = recordGate('vad');
+    frames(10, silence).forEach(gate.push);
+    frames(20, hiss).forEach(gate.push);
+    expect(activity).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it('stays open through pauses shorter than the hangover', () => {
+    const { gate, activity, speechEnds } = recordGate('vad', { hangoverMs: 200 });
+    frames(10, silence).forEach(gate.push);
+    gate.push(speech());
+    frames(200 / FRAME_MS - 1, silence).forEach(gate.push);
+    gate.push(speech());
+    frames(200 / FRAME_MS - 1, silence).forEach(gate.push);
+    expect(activity).toEqual([true]);
+    expect(speechEnds()).toBe(0);
+  });
+
+  it('closes once the hangover has passed, sending the trailing silence', () => {
+    const { gate, sent, activity, speechEnds } = recordGate('vad', { hangoverMs: 200 });
+    frames(10, silence).forEach(gate.push);
+    gate.push(speech());
+    const trailing = frames(200 / FRAME_MS, silence);
+    trailing.forEach(gate.push);
+    expect(activity).toEqual([true, false]);
+    expect(speechEnds()).toBe(1);
+    expect(sent.slice(-trailing.length)).toEqual(trailing);
+
+    const count = sent.length;
+    frames(10, silence).forEach(gate.push);
+    expect(sent).toHaveLength(count);
+  });
+
+  it('follows the talk key in push-to-talk mode, with pre-roll', () => {
+    const { gate, sent, activity, speechEnds } = recordGate('pushToTalk', { preRollMs: 40 });
+    const held = frames(5, silence);
+    held.forEach(gate.push);
+    expect(sent).toEqual([]);
+
+    gate.setTalking(true);
+    const spoken = silence();
+    gate.push(spoken);
+    expect(activity).toEqual([true]);
+    expect(sent).toEqual([...held.slice(-2), spoken]);
+
+    gate.setTalking(false);
+    gate.push(speech());
+    expect(activity).toEqual([true, false]);
+    expect(speechEnds()).toBe(1);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('ignores the talk key outside push-to-talk mode', () => {
+    const { gate, sent } = recordGate('vad');
+    gate.setTalking(true);
+    frames(5, silence).forEach(gate.push);
+    expect(sent).toEqual([]);
+  });
+
+  it('drops the held pre-roll on reset', () => {
+    const { gate, sent } = recordGate('vad');
+    frames(50, silence).forEach(gate.push);
+    gate.reset();
+    gate.push(speech());
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe('createSpeakerFloor', () => {
+  const setup = () => {
+    const sent: Int16Array[] = [];
+    const holders: (string | null)[] = [];
+    let speechEnds = 0;
+    const floor = createSpeakerFloor<string>({
+      onAudio: pcm => sent.push(pcm),
+      onSpeechEnd: () => speechEnds++,
+      onHolderChange: holder => holders.push(holder)
+    });
+    const options = { mode: 'vad' as const, sampleRate: SAMPLE_RATE, hangoverMs: 100 };
+    const professor = floor.gate('professor', options);
+    const student = floor.gate('student', options);
+    [professor, student].forEach(gate => frames(10, silence).forEach(gate.push));
+    return { floor, professor, student, sent, holders, speechEnds: () => speechEnds };
+  };
+
+  it('gives the floor to the first speaker and drops the other channel meanwhile', () => {
+    const { floor, professor, student, sent, holders } = setup();
+    const voice = speech();
+    professor.push(voice);
+    // The professor's voice also reaches the student microphone
+    const bleed = speech();
+    student.push(bleed);
+
+    expect(floor.holder()).toBe('professor');
+    expect(holders).toEqual(['professor']);
+    expect(sent.at(-1)).toBe(voice);
+    expect(sent).not.toContain(bleed);
+  });
+
+  it('releases the floor when the holder goes quiet and hands it to a speaker still talking', () => {
+    const { floor, professor, student, sent, holders, speechEnds } = setup();
+    professor.push(speech());
+    student.push(speech());
+    frames(100 / FRAME_MS, silence).forEach(professor.push);
+    expect(floor.holder()).toBeNull();
+    expect(floor.lastHolder()).toBe('professor');
+    expect(speechEnds()).toBe(1);
+
+    const answer = speech();
+    student.push(answer);
+    expect(floor.holder()).toBe('student');
+    expect(holders).toEqual(['professor', null, 'student']);
+    expect(sent.at(-1)).toBe(answer);
+  });
+
+  it('does not end the turn when a speaker without the floor goes quiet', () => {
+    const { floor, professor, student, speechEnds } = setup();
+    professor.push(speech());
+    student.push(speech());
+    frames(100 / FRAME_MS, silence).forEach(student.push);
+    expect(floor.holder()).toBe('professor');
+    expect(speechEnds()).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Client-side gating of captured audio before it reaches the translation backend.
+ *
+ * - `continuous`: every frame is sent (original behaviour).
+ * - `vad`: an energy detector with an adaptive noise floor opens the gate; a zero-crossing
+ *   check keeps broadband hiss from triggering it. Frames from just before the onset are
+ *   replayed (pre-roll) and the gate stays open for a hangover period after speech stops.
+ * - `pushToTalk`: the gate follows `setTalking`, i.e. a held key or button.
+ *
+ * When the gate closes `onSpeechEnd` fires so the session can be told the turn is over.
+ */
+export type InputMode = 'continuous' | 'vad' | 'pushToTalk';
+
+/** Audio kept from before a detected onset; recorded turn spans start this much earlier. */
+export const DEFAULT_PRE_ROLL_MS = 300;
+
+export interface VadOptions {
+  /** Level above the tracked noise floor that counts as speech. */
+  thresholdDb?: number;
+  /** Absolute level below which nothing counts as speech. */
+  minLevelDb?: number;
+  /** Zero-crossing rate (per sample) above which an onset is treated as noise. */
+  maxOnsetZcr?: number;
+  hangoverMs?: number;
+  preRollMs?: number;
+}
+
+export interface VoiceGateOptions extends VadOptions {
+  mode: InputMode;
+  sampleRate: number;
+  onAudio: (pcm: Int16Array) => void;
+  onSpeechEnd: () => void;
+  onActivityChange?: (active: boolean) => void;
+}
+
+export interface VoiceGate {
+  readonly mode: InputMode;
+  push(pcm: Int16Array): void;
+  /** Push-to-talk state; ignored in other modes. */
+  setTalking(talking: boolean): void;
+  reset(): void;
+}
+
+export interface FrameFeatures {
+  levelDb: number;
+  zcr: number;
+}
+
+export function analyzeFrame(pcm: Int16Array): FrameFeatures {
+  if (pcm.length === 0) return { levelDb: -120, zcr: 0 };
+  let energy = 0;
+  let crossings = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    energy += s * s;
+    if (i > 0 && (pcm[i] >= 0) !== (pcm[i - 1] >= 0)) crossings++;
+  }
+  const rms = Math.sqrt(energy / pcm.length);
+  return { levelDb: 20 * Math.log10(rms + 1e-9), zcr: crossings / pcm.length };
+}
+
+export function createVoiceGate(options: VoiceGateOptions): VoiceGate {
+  const {
+    mode, sampleRate, onAudio, onSpeechEnd, onActivityChange,
+    thresholdDb = 12, minLevelDb = -50, maxOnsetZcr = 0.35, hangoverMs = 600, preRollMs = DEFAULT_PRE_ROLL_MS
+  } = options;
+
+  let open = false;
+  let talking = false;
+  let noiseFloorDb = -60;
+  let silentMs = 0;
+  let preRoll: Int16Array[] = [];
+  let preRollMsHeld = 0;
+
+  const durationOf = (pcm: Int16Array) => pcm.length / sampleRate * 1000;
+
+  const setOpen = (next: boolean) => {
+    if (open === next) return;
+    open = next;
+    onActivityChange?.(next);
+    if (!next) onSpeechEnd();
+  };
+
+  const flushPreRoll = () => {
+    preRoll.forEach(onAudio);
+    preRoll = [];
+    preRollMsHeld = 0;
+  };
+
+  const holdPreRoll = (pcm: Int16Array, durationMs: number) => {
+    preRoll.push(pcm);
+    preRollMsHeld += durationMs;
+    while (preRoll.length > 1 && preRollMsHeld - durationOf(preRoll[0]) >= preRollMs) {
+      preRollMsHeld -= durationOf(preRoll.shift()!);
+    }
+  };
+
+  const pushVad = (pcm: Int16Array) => {
+    const durationMs = durationOf(pcm);
+    const { levelDb, zcr } = analyzeFrame(pcm);
+    const loud = levelDb > Math.max(noiseFloorDb + thresholdDb, minLevelDb);
+
+    if (!open) {
+      if (loud && zcr <= maxOnsetZcr) {
+        setOpen(true);
+        silentMs = 0;
+        flushPreRoll();
+        onAudio(pcm);
+        return;
+      }
+      // Track the floor quickly downwards and slowly upwards while idle
+      noiseFloorDb = levelDb < noiseFloorDb ? levelDb : noiseFloorDb * 0.95 + levelDb * 0.05;
+      holdPreRoll(pcm, durationMs);
+      return;
+    }
+
+    onAudio(pcm);
+    silentMs = loud ? 0 : silentMs + durationMs;
+    if (silentMs >= hangoverMs) setOpen(false);
+  };
+
+  const pushPtt = (pcm: Int16Array) => {
+    if (talking) {
+      setOpen(true);
+      flushPreRoll();
+      onAudio(pcm);
+    } else {
+      holdPreRoll(pcm, durationOf(pcm));
+    }
+  };
+
+  return {
+    mode,
+    push(pcm: Int16Array) {
+      if (mode === 'continuous') onAudio(pcm);
+      else if (mode === 'vad') pushVad(pcm);
+      else pushPtt(pcm);
+    },
+    setTalking(next: boolean) {
+      if (mode !== 'pushToTalk' || talking === next) return;
+      talking = next;
+      if (!next) setOpen(false);
+    },
+    reset() {
+      open = false;
+      talking = false;
+      silentMs = 0;
+      preRoll = [];
+      preRollMsHeld = 0;
+    }
+  };
+}
+
+export interface SpeakerFloorOptions<T> {
+  onAudio: (pcm: Int16Array) => void;
+  onSpeechEnd: () => void;
+  onHolderChange?: (holder: T | null) => void;
+}
+
+export interface SpeakerFloor<T> {
+  /** Speaker whose audio is currently forwarded, if any. */
+  holder(): T | null;
+  /** Most recent speaker to hold the floor; transcriptions often arrive after release. */
+  lastHolder(): T | null;
+  /** A voice gate for one speaker's channel, feeding the shared session. */
+  gate(speaker: T, options: Omit<VoiceGateOptions, 'onAudio' | 'onSpeechEnd'>): VoiceGate;
+}
+
+/**
+ * Arbitrates between one voice gate per microphone that all feed a single session. A
+ * speaker's voice also reaches the other microphones, so the first gate to open holds the
+ * floor until it closes, and audio from the other channels is dropped meanwhile.
+ */
+export function createSpeakerFloor<T>(options: SpeakerFloorOptions<T>): SpeakerFloor<T> {
+  const { onAudio, onSpeechEnd, onHolderChange } = options;
+  let holder: T | null = null;
+  let last: T | null = null;
+
+  const setHolder = (next: T | null) => {
+    holder = next;
+    if (next !== null) last = next;
+    onHolderChange?.(next);
+  };
+
+  return {
+    holder: () => holder,
+    lastHolder: () => last,
+    gate(speaker, gateOptions) {
+      return createVoiceGate({
+        ...gateOptions,
+        onAudio: (pcm) => {
+          if (holder === null) setHolder(speaker);
+          if (holder === speaker) onAudio(pcm);
+        },
+        onSpeechEnd: () => {
+          if (holder !== speaker) return;
+          setHolder(null);
+          onSpeechEnd();
+        }
+      });
+    }
+  };
+}
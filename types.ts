@@ -1,16 +1,185 @@
+export type UserRole = 'Professor' | 'Student';
+
+/** Key into the language registry (`LANGUAGES` in languageService), e.g. 'Thai'. */
+export type LanguageId = string;
+
+export interface LanguageInfo {
+  id: LanguageId;
+  /** BCP 47 tag, used for word segmentation and speech. */
+  code: string;
+  name: string;
+  nativeName: string;
+  /** Global pattern matching the characters of this language's script. */
+  script: RegExp;
+  latin?: boolean;
+  /** How translations into this language should sound, quoted into the instruction. */
+  register: string;
+}
+
+/** A classroom pairing: the lecturer speaks one language, the students the other. */
+export interface LanguagePair {
+  id: string;
+  lecturer: LanguageId;
+  students: LanguageId;
+}
+
+export type AcademicLevel = 'undergraduate' | 'masters' | 'doctoral';
+
+/** A user-edited system instruction for one language pair and academic level. */
+export interface InstructionProfile {
+  pairId: string;
+  level: AcademicLevel;
+  instruction: string;
+  updatedAt: number;
+}
 
 export interface TranscriptEntry {
   id: string;
+  /** When the turn completed (epoch ms). */
   timestamp: number;
+  /** When the first transcription of the turn arrived (epoch ms); absent in older entries. */
+  startedAt?: number;
   text: string;
   translation: string;
-  sourceLang: 'Thai' | 'Chinese';
-  role: 'Professor' | 'Student';
+  sourceLang: LanguageId;
+  /** Language of `translation`; absent in entries recorded before language pairs (then the other side of Thai/Chinese). */
+  targetLang?: LanguageId;
+  role: UserRole;
+  /** Offsets into the session recording, when the session was recorded. */
+  audio?: {
+    source?: AudioSpan;
+    translation?: AudioSpan;
+  };
+  /** Earlier versions of this entry, oldest first; present once the entry has been corrected. */
+  revisions?: EntryRevision[];
+  /** Typed into the composer instead of spoken. */
+  typed?: boolean;
+  /** Flagged during the session (bookmark shortcut) as a moment to come back to. */
+  bookmarked?: boolean;
+  starred?: boolean;
+  highlight?: HighlightColor;
+  /** Free-text note added while reviewing the transcript. */
+  annotation?: string;
 }
 
-export type LanguageMode = 'TH_TO_ZH' | 'ZH_TO_TH';
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export type RevisionReason = 'edit' | 'retranslate';
+
+/** The text and translation an entry had before the correction made at `editedAt`. */
+export interface EntryRevision {
+  text: string;
+  translation: string;
+  editedAt: number;
+  reason: RevisionReason;
+}
+
+export type AudioTrack = 'source' | 'translation';
+
+/** Millisecond offsets within one recorded track. */
+export interface AudioSpan {
+  start: number;
+  end: number;
+}
+
+/** Whose speech is translated: a fixed role, or detected on every turn. */
+export type LanguageMode = UserRole | 'AUTO';
 
 export interface AudioConfig {
   sampleRate: number;
   channels: number;
 }
+
+export interface GlossaryTerm {
+  id: string;
+  /** The term in each language it has been entered in, e.g. `{ Thai: …, Chinese: … }`. */
+  text: Record<LanguageId, string>;
+  note?: string;
+}
+
+export interface Glossary {
+  id: string;
+  course: string;
+  terms: GlossaryTerm[];
+  updatedAt: number;
+}
+
+export interface LectureSession {
+  id: string;
+  name: string;
+  course: string;
+  participants: string;
+  startedAt: number;
+  endedAt?: number;
+  /** True once audio for this session has been stored. */
+  recorded?: boolean;
+  /** Recording the session was translated from; entry times are then positions in that file. */
+  mediaFile?: string;
+  notes?: LectureNotes;
+  /** Material for this lecture's topic, condensed into the translator instruction. */
+  context?: LectureContext;
+  entries: TranscriptEntry[];
+}
+
+export type ContextDocumentKind = 'slides' | 'syllabus' | 'readings' | 'notes';
+
+/** One piece of lecture material as plain text (pasted, or read from a file). */
+export interface ContextDocument {
+  id: string;
+  name: string;
+  kind: ContextDocumentKind;
+  text: string;
+  addedAt: number;
+}
+
+export interface LectureContext {
+  documents: ContextDocument[];
+  /** Terminology brief sent to the translator; editable, regenerated from the documents on request. */
+  digest: string;
+  /** Documents the digest was condensed from, to tell when it is out of date. */
+  digestSourceIds: string[];
+  generatedAt?: number;
+  generator?: string;
+}
+
+/** One note point written in both classroom languages, by side of the language pair. */
+export interface BilingualText {
+  lecturer: string;
+  students: string;
+}
+
+export interface NoteTerm extends BilingualText {
+  /** Brief explanation, shown in brackets after the term like the live terminology hints. */
+  hint: string;
+}
+
+/** Study notes generated after a lecture; editable by the lecturer afterwards. */
+export interface LectureNotes {
+  generatedAt: number;
+  /** Backend that produced the first draft. */
+  generator: string;
+  /** Language pair the notes are written in; `lecturer` and `students` texts follow its two languages. */
+  pairId: string;
+  summary: BilingualText;
+  arguments: BilingualText[];
+  methodology: BilingualText[];
+  readings: string[];
+  questions: BilingualText[];
+  keyTerms: NoteTerm[];
+}
+
+export type LectureSessionSummary = Omit<LectureSession, 'entries'> & { entryCount: number };
+
+export type AccentTheme = 'professional' | 'trustworthy' | 'global' | 'premium';
+
+export interface AccentPalette {
+  bg: string;
+  text: string;
+  border: string;
+  lightBg: string;
+  darkText: string;
+  soft: string;
+  hex: string;
+  label: string;
+  desc: string;
+}